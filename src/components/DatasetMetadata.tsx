@@ -0,0 +1,24 @@
+interface DatasetMetadataProps {
+  metadata?: Record<string, string>;
+  emptyText?: string;
+}
+
+// Statement attributes such as the account, period and balances, as label and value pairs
+export const DatasetMetadata = ({ metadata, emptyText }: DatasetMetadataProps) => {
+  const entries = Object.entries(metadata ?? {});
+
+  if (entries.length === 0) {
+    return emptyText ? <p className="text-sm text-muted-foreground">{emptyText}</p> : null;
+  }
+
+  return (
+    <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      {entries.map(([key, value]) => (
+        <div key={key} className="contents">
+          <span className="text-muted-foreground">{key}:</span>
+          <span className="font-medium break-words">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
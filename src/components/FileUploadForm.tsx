@@ -1,211 +1,677 @@
-
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { parseCSVFile } from '@/utils/csvUtils';
+import { Progress } from '@/components/ui/progress';
+import { parseCSVFile, parseCSVLines, extractTable, type ParseProgress } from '@/utils/csvUtils';
+import {
+  diagnoseRows,
+  resolveDataRows,
+  resolveDataLineNumbers,
+  resolveIssues,
+  getUnresolvedIssues,
+  type DiagnoseOptions
+} from '@/utils/diagnosticsUtils';
+import { isExcelFile, readExcelWorkbook, parseExcelSheet, type ExcelWorkbook } from '@/utils/excelUtils';
+import { isCamtFile, parseCamtStatement } from '@/utils/camtUtils';
+import { isMT940File, parseMT940Statement } from '@/utils/mt940Utils';
+import { isOFXFile, parseOFXStatement } from '@/utils/ofxUtils';
+import { isJSONFile, parseJSONData } from '@/utils/jsonUtils';
+import { detectTableBlocks, buildBlockRows } from '@/utils/tableBlockUtils';
+import { buildHeaders, makeUniqueHeaders } from '@/utils/headerUtils';
+import { extractMetadata } from '@/utils/metadataUtils';
+import { convertAmountColumns, profileColumns } from '@/utils/profileUtils';
+import { remapDateFormats } from '@/utils/dateFormatUtils';
+import { detectNumberFormat, type NumberFormat } from '@/utils/numberFormatUtils';
+import { splitLines, suggestColumnBoundaries, parseFixedWidthLines } from '@/utils/fixedWidthUtils';
+import { decodeText } from '@/utils/encodingUtils';
+import { alignHeaders, describeSchemaDifference, mergeMetadata, mergeTables } from '@/utils/mergeUtils';
+import { collectDroppedFiles, hasAcceptedExtension, sortFilesByName } from '@/utils/fileDropUtils';
+import { createPastedFile } from '@/utils/clipboardUtils';
+import { type ReconciliationData } from '@/types/reconciliation';
+import { type DateFormat } from '@/types/profile';
+import { type FileData, type FileFormat, type ParseOptions } from '@/types/upload';
+import { type ImportDiagnostics, type RowClass, type RowResolution } from '@/types/diagnostics';
+import { FileMetadataPanel } from './upload/FileMetadataPanel';
+import { ImportDiagnosticsPanel } from './upload/ImportDiagnosticsPanel';
+import { UploadedFileList } from './upload/UploadedFileList';
+import { PasteDataDialog } from './upload/PasteDataDialog';
 import { toast } from 'sonner';
-import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ChevronDown, ChevronUp, FileText, Upload } from 'lucide-react';
+import { Upload, X } from 'lucide-react';
 
-interface FileUploadFormProps {
-  onFilesUploaded: (sourceFile: {
-    headers: string[];
-    data: string[][];
-    fileName: string;
-    headerRowIndex: number;
-    rowCount: number;
-    columnCount: number;
-  }, targetFile: {
-    headers: string[];
-    data: string[][];
-    fileName: string;
-    headerRowIndex: number;
-    rowCount: number;
-    columnCount: number;
-  }) => void;
-}
+// Extensions of every format the importers understand
+const ACCEPTED_FILE_TYPES = '.csv,.tsv,.txt,.xlsx,.xml,.sta,.mt940,.mt942,.940,.942,.ofx,.qfx,.json,.ndjson,.jsonl';
 
-interface FileData {
-  headers: string[];
-  data: string[][];
-  fileName: string;
-  headerRowIndex: number;
-  rowCount: number;
-  columnCount: number;
-  possibleHeaderRows: Array<{ index: number, headers: string[] }>;
-  selectedHeaderRowIndex: number;
-  rawLines: string[];
+// Formats whose importers build the table themselves, so every row after the header is data
+const DATASET_FORMATS: FileFormat[] = ['camt', 'mt940', 'ofx', 'json'];
+
+interface FileUploadFormProps {
+  onFilesUploaded: (sourceFile: ReconciliationData, targetFile: ReconciliationData) => void;
 }
 
 const FileUploadForm = ({ onFilesUploaded }: FileUploadFormProps) => {
-  const [sourceFile, setSourceFile] = useState<File | null>(null);
-  const [targetFile, setTargetFile] = useState<File | null>(null);
+  // Each side can hold several files, e.g. monthly exports, which are merged on submit.
+  // The metadata panel configures the active file of each side.
+  const [sourceFiles, setSourceFiles] = useState<File[]>([]);
+  const [targetFiles, setTargetFiles] = useState<File[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [sourceData, setSourceData] = useState<FileData | null>(null);
-  const [targetData, setTargetData] = useState<FileData | null>(null);
+  const [sourceData, setSourceData] = useState<FileData[]>([]);
+  const [targetData, setTargetData] = useState<FileData[]>([]);
+  const [activeSourceIndex, setActiveSourceIndex] = useState(0);
+  const [activeTargetIndex, setActiveTargetIndex] = useState(0);
   const [sourceMetadataOpen, setSourceMetadataOpen] = useState(false);
   const [targetMetadataOpen, setTargetMetadataOpen] = useState(false);
+  const [parseProgress, setParseProgress] = useState<{
+    isSource: boolean;
+    progress: ParseProgress | null;
+  } | null>(null);
   
   const sourceInputRef = useRef<HTMLInputElement>(null);
   const targetInputRef = useRef<HTMLInputElement>(null);
+  const parseAbortRef = useRef<AbortController | null>(null);
+  // Numbers the synthetic file names of pasted tables
+  const pasteCountRef = useRef(0);
   
-  const handleSourceFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setSourceFile(file);
-      setIsLoading(true);
-      try {
-        const parsedData = await parseCSVFile(file);
-        const rawLines = await readFileAsLines(file);
-        
-        // Find possible header rows (first few non-empty rows)
-        const possibleHeaderRows = findPossibleHeaderRows(rawLines, 5);
-        
-        setSourceData({
-          ...parsedData,
-          fileName: file.name,
-          rowCount: parsedData.data.length,
-          columnCount: parsedData.headers.length,
-          possibleHeaderRows,
-          selectedHeaderRowIndex: parsedData.headerRowIndex,
-          rawLines
-        });
-        setSourceMetadataOpen(true);
-      } catch (error) {
-        toast.error('Error processing source file');
-        console.error(error);
-      } finally {
-        setIsLoading(false);
+  const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+  
+  const getFileData = (isSource: boolean): FileData | undefined => {
+    return isSource ? sourceData[activeSourceIndex] : targetData[activeTargetIndex];
+  };
+  
+  // Replace the active file of a side
+  const setFileData = (isSource: boolean, fileData: FileData) => {
+    const activeIndex = isSource ? activeSourceIndex : activeTargetIndex;
+    const update = (files: FileData[]) => files.map((file, index) => (index === activeIndex ? fileData : file));
+    if (isSource) {
+      setSourceData(update);
+    } else {
+      setTargetData(update);
+    }
+  };
+  
+  const createFileData = (
+    fileName: string,
+    format: FileFormat,
+    { rawRows, ...parsedData }: {
+      headers: string[];
+      data: string[][];
+      headerRowIndex: number;
+      rawRows: string[][];
+      lineNumbers?: number[];
+      truncated?: boolean;
+      diagnostics: ImportDiagnostics;
+      delimiter?: string;
+    }
+  ): FileData => {
+    // Duplicate or blank names would make columns overwrite each other when rows are keyed by header
+    const headers = makeUniqueHeaders(parsedData.headers);
+    
+    // Lines above the header often name the account, period and balances
+    const metadata = DATASET_FORMATS.includes(format)
+      ? undefined
+      : extractMetadata(rawRows, parsedData.headerRowIndex, parsedData.delimiter);
+    
+    // Files with several tables let the user pick one or append compatible ones
+    const blocks = DATASET_FORMATS.includes(format) ? [] : detectTableBlocks(rawRows);
+    const tables = blocks.length > 1
+      ? { blocks, rows: rawRows, lineNumbers: parsedData.lineNumbers, truncated: parsedData.truncated }
+      : undefined;
+    
+    return {
+      ...parsedData,
+      fileName,
+      format,
+      headers,
+      rowCount: parsedData.data.length,
+      columnCount: headers.length,
+      metadata,
+      numberFormat: detectNumberFormat(parsedData.data),
+      selectedHeaderRowIndex: parsedData.headerRowIndex,
+      rawRows,
+      tables
+    };
+  };
+  
+  // Importers with a fixed layout already know their headers, so the raw rows are the table itself
+  const createDatasetFileData = (dataset: ReconciliationData, format: FileFormat): FileData => {
+    const { headers, headerRowIndex, metadata, keyCandidates } = dataset;
+    const rawRows = [headers, ...dataset.data];
+    // The header comes first, so data row i is raw row i + 1
+    const unreadableRows = dataset.unreadableRows?.map(row => ({ ...row, rowIndex: row.rowIndex + 1 }));
+    
+    // The rows still get checked, e.g. for blank records
+    const diagnostics = diagnoseRows(rawRows, headerRowIndex, { classify: false, unreadableRows });
+    const data = resolveDataRows(rawRows, headerRowIndex, diagnostics);
+    
+    return {
+      ...createFileData(dataset.fileName, format, { headers, data, headerRowIndex, rawRows, diagnostics }),
+      metadata,
+      keyCandidates,
+      unreadableRows
+    };
+  };
+  
+  const createSheetFileData = (
+    fileName: string,
+    workbook: ExcelWorkbook,
+    sheetName: string,
+    cellRange?: string
+  ): FileData => {
+    const sheet = workbook.sheets.find(s => s.name === sheetName);
+    if (!sheet) {
+      throw new Error(`Sheet '${sheetName}' not found in ${fileName}`);
+    }
+    
+    return {
+      ...createFileData(fileName, 'excel', parseExcelSheet(sheet, cellRange)),
+      workbook,
+      sheetName,
+      cellRange: cellRange || sheet.usedRange
+    };
+  };
+  
+  const createFixedWidthFileData = (
+    fileName: string,
+    lines: string[],
+    columnBoundaries: number[],
+    encoding: string
+  ): FileData => {
+    return {
+      ...createFileData(fileName, 'fixed-width', parseFixedWidthLines(lines, columnBoundaries)),
+      encoding,
+      lines,
+      columnBoundaries
+    };
+  };
+  
+  const loadFileData = async (
+    file: File,
+    isSource: boolean,
+    options: ParseOptions = {}
+  ): Promise<FileData> => {
+    if (isExcelFile(file)) {
+      const workbook = await readExcelWorkbook(file);
+      if (workbook.sheets.length === 0) {
+        throw new Error(`${file.name} doesn't contain any sheets`);
+      }
+      return createSheetFileData(file.name, workbook, workbook.sheets[0].name);
+    }
+    
+    if (isCamtFile(file)) {
+      const { text } = decodeText(await file.arrayBuffer());
+      return createDatasetFileData(parseCamtStatement(text, file.name), 'camt');
+    }
+    
+    if (isMT940File(file)) {
+      const { text } = decodeText(await file.arrayBuffer());
+      return createDatasetFileData(parseMT940Statement(text, file.name), 'mt940');
+    }
+    
+    if (isOFXFile(file)) {
+      const { text } = decodeText(await file.arrayBuffer());
+      return createDatasetFileData(parseOFXStatement(text, file.name), 'ofx');
+    }
+    
+    if (isJSONFile(file)) {
+      const { text } = decodeText(await file.arrayBuffer());
+      const arrayMode = options.arrayMode ?? 'join';
+      return { ...createDatasetFileData(parseJSONData(text, file.name, arrayMode), 'json'), arrayMode };
+    }
+    
+    if (options.layout === 'fixed-width') {
+      const { text, encoding } = decodeText(await file.arrayBuffer(), options.encoding);
+      const lines = splitLines(text);
+      return createFixedWidthFileData(file.name, lines, options.columnBoundaries ?? suggestColumnBoundaries(lines), encoding);
+    }
+    
+    const abortController = new AbortController();
+    parseAbortRef.current = abortController;
+    setParseProgress({ isSource, progress: null });
+    
+    let parsed: Awaited<ReturnType<typeof parseCSVFile>>;
+    try {
+      // Unless the layout was chosen, a file no delimiter splits comes back as lines to try as fixed-width
+      parsed = await parseCSVFile(file, { ...options, detectFixedWidth: !options.layout }, {
+        onProgress: (progress) => setParseProgress({ isSource, progress }),
+        signal: abortController.signal
+      });
+    } finally {
+      parseAbortRef.current = null;
+      setParseProgress(null);
+    }
+    
+    if ('lines' in parsed) {
+      const columnBoundaries = suggestColumnBoundaries(parsed.lines);
+      if (columnBoundaries.length > 0) {
+        toast.info(`${file.name} looks like a fixed-width file, check the column boundaries`);
+        return createFixedWidthFileData(file.name, parsed.lines, columnBoundaries, parsed.encoding);
       }
+      // Without column gaps the lines are a single-column file after all
+      parsed = parseCSVLines(parsed.lines, parsed.delimiter, parsed.encoding);
     }
+    const { encoding, ...table } = parsed;
+    
+    return { ...createFileData(file.name, 'csv', table), encoding };
   };
-
-  const handleTargetFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setTargetFile(file);
-      setIsLoading(true);
-      try {
-        const parsedData = await parseCSVFile(file);
-        const rawLines = await readFileAsLines(file);
-        
-        // Find possible header rows
-        const possibleHeaderRows = findPossibleHeaderRows(rawLines, 5);
-        
-        setTargetData({
-          ...parsedData,
-          fileName: file.name,
-          rowCount: parsedData.data.length,
-          columnCount: parsedData.headers.length,
-          possibleHeaderRows,
-          selectedHeaderRowIndex: parsedData.headerRowIndex,
-          rawLines
-        });
-        setTargetMetadataOpen(true);
-      } catch (error) {
-        toast.error('Error processing target file');
-        console.error(error);
-      } finally {
-        setIsLoading(false);
+  
+  // Load the files picked or dropped for a side, adding them to the files it already has.
+  // A file with the same name as one already loaded replaces it.
+  const loadFiles = async (files: File[], isSource: boolean) => {
+    const accepted = sortFilesByName(files.filter(file => hasAcceptedExtension(file.name, ACCEPTED_FILE_TYPES)));
+    if (accepted.length === 0) {
+      toast.error('None of the files has a supported format');
+      return;
+    }
+    if (accepted.length < files.length) {
+      toast.info(`Skipped ${files.length - accepted.length} files with an unsupported format`);
+    }
+    
+    const side = isSource ? 'source' : 'target';
+    const loadedFiles: File[] = [];
+    const loadedData: FileData[] = [];
+    
+    setIsLoading(true);
+    try {
+      for (const file of accepted) {
+        try {
+          loadedData.push(await loadFileData(file, isSource));
+          loadedFiles.push(file);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          toast.error(`Error processing ${side} file ${file.name}`);
+          console.error(error);
+        }
       }
+    } catch {
+      // Only cancelling gets here, and it stops the whole batch
+      toast.info('Parsing cancelled');
+      return;
+    } finally {
+      setIsLoading(false);
+    }
+    if (loadedData.length === 0) return;
+    
+    const existingFiles = isSource ? sourceFiles : targetFiles;
+    const existingData = isSource ? sourceData : targetData;
+    const loadedNames = loadedFiles.map(file => file.name);
+    const keep = existingFiles.map(file => !loadedNames.includes(file.name));
+    const allFiles = [...existingFiles.filter((_, index) => keep[index]), ...loadedFiles];
+    const allData = [...existingData.filter((_, index) => keep[index]), ...loadedData];
+    
+    if (isSource) {
+      setSourceFiles(allFiles);
+      setSourceData(allData);
+      setActiveSourceIndex(allData.length - loadedData.length);
+      setSourceMetadataOpen(true);
+    } else {
+      setTargetFiles(allFiles);
+      setTargetData(allData);
+      setActiveTargetIndex(allData.length - loadedData.length);
+      setTargetMetadataOpen(true);
+    }
+    
+    const { differences } = alignHeaders(allData);
+    if (differences.length > 0) {
+      toast.warning(`The ${side} files have different columns: ${differences.map(describeSchemaDifference).join('; ')}`);
     }
   };
   
-  const readFileAsLines = (file: File): Promise<string[]> => {
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const text = e.target?.result as string;
-        const lines = text.split('\n').filter(line => line.trim() !== '');
-        resolve(lines);
-      };
-      reader.readAsText(file);
-    });
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>, isSource: boolean) => {
+    const files = Array.from(e.target.files ?? []);
+    // Allow picking the same file again, e.g. after cancelling
+    e.target.value = '';
+    if (files.length > 0) {
+      loadFiles(files, isSource);
+    }
   };
   
-  const findPossibleHeaderRows = (lines: string[], maxRows: number): Array<{ index: number, headers: string[] }> => {
-    const result: Array<{ index: number, headers: string[] }> = [];
-    
-    // Check first few non-empty rows
-    for (let i = 0; i < Math.min(lines.length, maxRows); i++) {
-      const line = lines[i];
-      if (line && line.trim()) {
-        const headers = line.split(',').map(h => h.trim());
-        result.push({
-          index: i,
-          headers
-        });
+  const handleFileDrop = async (e: React.DragEvent<HTMLDivElement>, isSource: boolean) => {
+    e.preventDefault();
+    if (isLoading) return;
+    
+    try {
+      const files = await collectDroppedFiles(e.dataTransfer);
+      if (files.length > 0) {
+        await loadFiles(files, isSource);
       }
+    } catch (error) {
+      toast.error('Error reading the dropped files');
+      console.error(error);
     }
+  };
+  
+  // Pasted cells become a tab-separated file, so they are parsed like an upload and can be
+  // configured and re-parsed the same way
+  const handlePasteImport = (text: string, isSource: boolean) => {
+    pasteCountRef.current += 1;
+    const fileName = `Pasted ${isSource ? 'source' : 'target'} data ${pasteCountRef.current}.tsv`;
+    loadFiles([createPastedFile(text, fileName)], isSource);
+  };
+  
+  const handleRemoveFile = (index: number, isSource: boolean) => {
+    const remaining = <T,>(items: T[]) => items.filter((_, itemIndex) => itemIndex !== index);
+    const activeIndex = isSource ? activeSourceIndex : activeTargetIndex;
+    // Stay on the same file when one before it goes
+    const nextActiveIndex = index < activeIndex ? activeIndex - 1 : index === activeIndex ? 0 : activeIndex;
     
-    return result;
+    if (isSource) {
+      setSourceFiles(remaining);
+      setSourceData(remaining);
+      setActiveSourceIndex(nextActiveIndex);
+    } else {
+      setTargetFiles(remaining);
+      setTargetData(remaining);
+      setActiveTargetIndex(nextActiveIndex);
+    }
   };
   
-  const handleHeaderRowChange = (value: string, isSource: boolean) => {
-    const rowIndex = parseInt(value, 10);
-    
-    if (isSource && sourceData && sourceData.rawLines) {
-      const headers = sourceData.rawLines[rowIndex].split(',').map(h => h.trim());
-      const newData = sourceData.rawLines
-        .slice(rowIndex + 1)
-        .map(line => line.split(',').map(cell => cell.trim()));
-      
-      setSourceData({
-        ...sourceData,
-        headers,
-        data: newData,
-        selectedHeaderRowIndex: rowIndex,
-        headerRowIndex: rowIndex,
-        rowCount: newData.length
-      });
-    } else if (!isSource && targetData && targetData.rawLines) {
-      const headers = targetData.rawLines[rowIndex].split(',').map(h => h.trim());
-      const newData = targetData.rawLines
-        .slice(rowIndex + 1)
-        .map(line => line.split(',').map(cell => cell.trim()));
-      
-      setTargetData({
-        ...targetData,
-        headers,
-        data: newData,
-        selectedHeaderRowIndex: rowIndex,
-        headerRowIndex: rowIndex,
-        rowCount: newData.length
+  const handleParseOptionsChange = async (options: ParseOptions, isSource: boolean) => {
+    const file = isSource ? sourceFiles[activeSourceIndex] : targetFiles[activeTargetIndex];
+    const fileData = getFileData(isSource);
+    if (!file || !fileData) return;
+    
+    // Re-parse with the new option while keeping the other one, then re-detect the header
+    setIsLoading(true);
+    try {
+      const newFileData = await loadFileData(file, isSource, {
+        layout: fileData.format === 'fixed-width' ? 'fixed-width' : 'delimited',
+        delimiter: fileData.delimiter,
+        encoding: fileData.encoding,
+        columnBoundaries: fileData.columnBoundaries,
+        arrayMode: fileData.arrayMode,
+        ...options
       });
+      setFileData(isSource, newFileData);
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast.info('Parsing cancelled');
+      } else {
+        toast.error(`Error re-parsing ${isSource ? 'source' : 'target'} file`);
+        console.error(error);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const handleSheetChange = (sheetName: string, isSource: boolean) => {
+    const fileData = getFileData(isSource);
+    if (!fileData?.workbook) return;
+    
+    try {
+      setFileData(isSource, createSheetFileData(fileData.fileName, fileData.workbook, sheetName));
+    } catch (error) {
+      toast.error(`Error reading sheet '${sheetName}'`);
+      console.error(error);
+    }
+  };
+  
+  const handleCellRangeChange = (cellRange: string, isSource: boolean) => {
+    const fileData = getFileData(isSource);
+    if (!fileData?.workbook || !fileData.sheetName) return;
+    
+    try {
+      setFileData(isSource, createSheetFileData(fileData.fileName, fileData.workbook, fileData.sheetName, cellRange));
+    } catch (error) {
+      toast.error(`Invalid cell range '${cellRange}', use a range like A1:F200`);
+      console.error(error);
+    }
+  };
+  
+  const handleColumnBoundariesChange = (columnBoundaries: number[], isSource: boolean) => {
+    const fileData = getFileData(isSource);
+    if (!fileData?.lines || !fileData.encoding) return;
+    
+    setFileData(isSource, createFixedWidthFileData(fileData.fileName, fileData.lines, columnBoundaries, fileData.encoding));
+  };
+  
+  const handleNumberFormatChange = (numberFormat: NumberFormat, isSource: boolean) => {
+    const fileData = getFileData(isSource);
+    if (!fileData) return;
+    
+    setFileData(isSource, { ...fileData, numberFormat });
+  };
+  
+  const handleDateFormatChange = (column: string, dateFormat: DateFormat, isSource: boolean) => {
+    const fileData = getFileData(isSource);
+    if (!fileData) return;
+    
+    setFileData(isSource, { ...fileData, dateFormats: { ...fileData.dateFormats, [column]: dateFormat } });
+  };
+  
+  const handleCancelParse = () => {
+    parseAbortRef.current?.abort();
+  };
+  
+  const formatMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+  
+  const renderParseProgress = (isSource: boolean) => {
+    if (!parseProgress || parseProgress.isSource !== isSource) return null;
+    
+    const { progress } = parseProgress;
+    const percentage = progress && progress.totalBytes > 0
+      ? Math.round((progress.bytesProcessed / progress.totalBytes) * 100)
+      : 0;
+    
+    return (
+      <div className="space-y-2">
+        <Progress value={percentage} />
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {progress
+              ? `${formatMegabytes(progress.bytesProcessed)} of ${formatMegabytes(progress.totalBytes)} MB, ${progress.rowsProcessed.toLocaleString()} rows`
+              : 'Starting...'}
+          </span>
+          <Button type="button" variant="ghost" size="sm" onClick={handleCancelParse}>
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  };
+  
+  // Check the rows of a file again, keeping its line numbers, header rows and excluded row classes
+  const rediagnoseRows = (fileData: FileData, headerRowIndex: number, options: DiagnoseOptions = {}) => {
+    return diagnoseRows(fileData.rawRows, headerRowIndex, {
+      headerRowCount: fileData.diagnostics.headerRowCount,
+      lineNumbers: fileData.lineNumbers,
+      truncated: fileData.truncated,
+      excludedClasses: fileData.diagnostics.excludedClasses,
+      classify: !DATASET_FORMATS.includes(fileData.format),
+      unreadableRows: fileData.unreadableRows,
+      ...options
+    });
+  };
+  
+  const handleHeaderRowChange = (rowIndex: number, headerRowCount: number, isSource: boolean) => {
+    const fileData = getFileData(isSource);
+    if (!fileData?.rawRows) return;
+    
+    // A different header means a different column count, so every row is checked again.
+    // Renames belong to the old columns and are dropped; date formats stay with their column position.
+    const headers = buildHeaders(fileData.rawRows, rowIndex, headerRowCount);
+    const diagnostics = rediagnoseRows(fileData, rowIndex, { headerRowCount });
+    const newData = resolveDataRows(fileData.rawRows, rowIndex, diagnostics, fileData.delimiter);
+    // Importers with a fixed layout and selected table blocks keep the attributes they were given
+    const metadata = DATASET_FORMATS.includes(fileData.format) || fileData.selectedBlocks?.length
+      ? fileData.metadata
+      : extractMetadata(fileData.rawRows, rowIndex, fileData.delimiter);
+    
+    setFileData(isSource, {
+      ...fileData,
+      headers,
+      headerRenames: undefined,
+      dateFormats: remapDateFormats(fileData.dateFormats, fileData.headers, headers),
+      metadata,
+      data: newData,
+      diagnostics,
+      selectedHeaderRowIndex: rowIndex,
+      headerRowIndex: rowIndex,
+      rowCount: newData.length,
+      columnCount: headers.length
+    });
+  };
+  
+  const handleHeaderRename = (columnIndex: number, name: string, isSource: boolean) => {
+    const fileData = getFileData(isSource);
+    if (!fileData) return;
+    
+    // Clearing a name goes back to the one from the file
+    const headerRenames = { ...fileData.headerRenames };
+    if (name.trim()) {
+      headerRenames[columnIndex] = name.trim();
+    } else {
+      delete headerRenames[columnIndex];
+    }
+    
+    const headers = buildHeaders(
+      fileData.rawRows,
+      fileData.selectedHeaderRowIndex,
+      fileData.diagnostics.headerRowCount,
+      headerRenames
+    );
+    
+    setFileData(isSource, {
+      ...fileData,
+      headers,
+      headerRenames,
+      // Date formats are chosen by column name, so they follow the rename
+      dateFormats: remapDateFormats(fileData.dateFormats, fileData.headers, headers)
+    });
+  };
+  
+  const handleRowClassToggle = (rowClass: RowClass, include: boolean, isSource: boolean) => {
+    const fileData = getFileData(isSource);
+    if (!fileData) return;
+    
+    const { excludedClasses } = fileData.diagnostics;
+    const diagnostics = rediagnoseRows(fileData, fileData.selectedHeaderRowIndex, {
+      excludedClasses: include
+        ? excludedClasses.filter(excluded => excluded !== rowClass)
+        : [...excludedClasses, rowClass],
+      previous: fileData.diagnostics
+    });
+    const newData = resolveDataRows(fileData.rawRows, fileData.selectedHeaderRowIndex, diagnostics, fileData.delimiter);
+    
+    setFileData(isSource, {
+      ...fileData,
+      data: newData,
+      diagnostics,
+      rowCount: newData.length
+    });
+  };
+  
+  const handleTableBlocksChange = (selectedBlocks: number[], isSource: boolean) => {
+    const fileData = getFileData(isSource);
+    const tables = fileData?.tables;
+    if (!fileData || !tables) return;
+    
+    const excludedClasses = fileData.diagnostics.excludedClasses;
+    let table: Parameters<typeof createFileData>[2];
+    
+    if (selectedBlocks.length === 0) {
+      // Back to the whole file with a detected header
+      const { rows: rawRows, lineNumbers, truncated } = tables;
+      table = { ...extractTable(rawRows, { lineNumbers, truncated, excludedClasses }), rawRows, lineNumbers, truncated };
+    } else {
+      // The selected blocks start with their header
+      const { rawRows, lineNumbers, truncated } = buildBlockRows(tables, selectedBlocks);
+      const diagnostics = diagnoseRows(rawRows, 0, { lineNumbers, truncated, excludedClasses });
+      const data = resolveDataRows(rawRows, 0, diagnostics, fileData.delimiter);
+      table = { headers: rawRows[0], data, headerRowIndex: 0, rawRows, lineNumbers, truncated, diagnostics };
     }
+    
+    const newFileData = createFileData(fileData.fileName, fileData.format, { ...table, delimiter: fileData.delimiter });
+    
+    setFileData(isSource, {
+      ...fileData,
+      ...newFileData,
+      headerRenames: undefined,
+      // The block rows start at their header, so the attributes come from the top of the file
+      metadata: selectedBlocks.length > 0
+        ? extractMetadata(tables.rows, tables.blocks[0].headerRowIndex, fileData.delimiter)
+        : newFileData.metadata,
+      tables,
+      selectedBlocks
+    });
+  };
+  
+  const handleResolutionChange = (resolution: RowResolution, rowIndex: number | undefined, isSource: boolean) => {
+    const fileData = getFileData(isSource);
+    if (!fileData) return;
+    
+    const diagnostics = resolveIssues(fileData.diagnostics, resolution, rowIndex);
+    const newData = resolveDataRows(fileData.rawRows, fileData.selectedHeaderRowIndex, diagnostics, fileData.delimiter);
+    
+    setFileData(isSource, {
+      ...fileData,
+      data: newData,
+      diagnostics,
+      rowCount: newData.length
+    });
+  };
+  
+  // Merge the files of a side into one dataset, with the file and line of every row
+  const finalizeData = (files: FileData[]): ReconciliationData => {
+    const [first] = files;
+    // Every file is read with its own number format and written in the format of the first one,
+    // which the merged dataset is read with
+    const { headers, data } = mergeTables(files.map(fileData => ({
+      fileName: fileData.fileName,
+      headers: fileData.headers,
+      data: convertAmountColumns(
+        fileData.headers,
+        fileData.data,
+        fileData.numberFormat,
+        first.numberFormat,
+        fileData.dateFormats
+      ),
+      lineNumbers: resolveDataLineNumbers(
+        fileData.rawRows,
+        fileData.selectedHeaderRowIndex,
+        fileData.diagnostics,
+        fileData.lineNumbers
+      )
+    })));
+    
+    const dateFormats = Object.assign({}, ...files.map(fileData => fileData.dateFormats));
+    
+    return {
+      headers,
+      data,
+      fileName: files.map(fileData => fileData.fileName).join(', '),
+      headerRowIndex: first.selectedHeaderRowIndex,
+      rowCount: data.length,
+      columnCount: headers.length,
+      delimiter: first.delimiter,
+      encoding: first.encoding,
+      columnBoundaries: first.columnBoundaries,
+      metadata: mergeMetadata(files),
+      keyCandidates: [...new Set(files.flatMap(fileData => fileData.keyCandidates ?? []))],
+      // Issue row indexes are per file, so they only carry over from a single file
+      diagnostics: files.length === 1 ? first.diagnostics : undefined,
+      columnProfiles: profileColumns(headers, data, first.numberFormat, dateFormats),
+      numberFormat: first.numberFormat
+    };
   };
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!sourceData || !targetData) {
+    if (sourceData.length === 0 || targetData.length === 0) {
       toast.error('Please upload and configure both CSV files');
       return;
     }
     
-    // Finalize the data to be sent
-    const finalSourceData = {
-      headers: sourceData.headers,
-      data: sourceData.data,
-      fileName: sourceData.fileName,
-      headerRowIndex: sourceData.selectedHeaderRowIndex,
-      rowCount: sourceData.rowCount,
-      columnCount: sourceData.columnCount
-    };
-    
-    const finalTargetData = {
-      headers: targetData.headers,
-      data: targetData.data,
-      fileName: targetData.fileName,
-      headerRowIndex: targetData.selectedHeaderRowIndex,
-      rowCount: targetData.rowCount,
-      columnCount: targetData.columnCount
-    };
+    // Rows that don't fit the table must be dealt with explicitly, never dropped silently
+    const unresolvedCount = [...sourceData, ...targetData]
+      .reduce((count, fileData) => count + getUnresolvedIssues(fileData.diagnostics).length, 0);
+    if (unresolvedCount > 0) {
+      toast.error(`Resolve the ${unresolvedCount} import warnings before continuing`);
+      return;
+    }
     
-    onFilesUploaded(finalSourceData, finalTargetData);
+    onFilesUploaded(finalizeData(sourceData), finalizeData(targetData));
     toast.success('Files processed successfully!');
   };
   
@@ -217,84 +683,68 @@ const FileUploadForm = ({ onFilesUploaded }: FileUploadFormProps) => {
           <div className="space-y-4">
             <h3 className="text-lg font-medium">Source CSV</h3>
             <div className="border-2 border-dashed border-muted rounded-md p-4 text-center cursor-pointer hover:bg-muted/10 transition-colors"
-                 onClick={() => sourceInputRef.current?.click()}>
+                 onClick={() => sourceInputRef.current?.click()}
+                 onDragOver={(e) => e.preventDefault()}
+                 onDrop={(e) => handleFileDrop(e, true)}>
               <input
                 ref={sourceInputRef}
                 type="file"
-                accept=".csv"
-                onChange={handleSourceFileChange}
+                accept={ACCEPTED_FILE_TYPES}
+                multiple
+                onChange={(e) => handleFileInputChange(e, true)}
                 className="hidden"
               />
               <div className="py-4 flex flex-col items-center justify-center">
-                {sourceFile ? (
-                  <>
-                    <FileText className="h-8 w-8 text-csv-blue mb-2" />
-                    <p className="font-medium text-csv-blue">{sourceFile.name}</p>
-                  </>
-                ) : (
-                  <>
-                    <Upload className="h-8 w-8 text-muted-foreground mb-2" />
-                    <span className="block text-sm font-medium mb-1">Click to upload Source CSV</span>
-                    <span className="text-xs text-muted-foreground">or drag and drop</span>
-                  </>
-                )}
+                <Upload className="h-8 w-8 text-muted-foreground mb-2" />
+                <span className="block text-sm font-medium mb-1">
+                  {sourceData.length > 0 ? 'Click to add more Source files' : 'Click to upload Source CSV'}
+                </span>
+                <span className="text-xs text-muted-foreground">or drag and drop files or a folder</span>
               </div>
             </div>
             
-            {sourceData && (
-              <Collapsible open={sourceMetadataOpen} onOpenChange={setSourceMetadataOpen}>
-                <div className="flex items-center justify-between">
-                  <h4 className="text-sm font-semibold">Source File Metadata</h4>
-                  <CollapsibleTrigger asChild>
-                    <Button variant="ghost" size="sm">
-                      {sourceMetadataOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
-                    </Button>
-                  </CollapsibleTrigger>
-                </div>
-                <CollapsibleContent>
-                  <div className="pt-2 pb-4 space-y-3">
-                    <div className="grid grid-cols-2 gap-2 text-sm">
-                      <div className="text-muted-foreground">File name:</div>
-                      <div className="font-medium">{sourceData.fileName}</div>
-                      
-                      <div className="text-muted-foreground">Rows:</div>
-                      <div className="font-medium">{sourceData.rowCount}</div>
-                      
-                      <div className="text-muted-foreground">Columns:</div>
-                      <div className="font-medium">{sourceData.columnCount}</div>
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <Label htmlFor="sourceHeaderRow">Header Row</Label>
-                      <Select
-                        value={sourceData.selectedHeaderRowIndex.toString()}
-                        onValueChange={(value) => handleHeaderRowChange(value, true)}
-                      >
-                        <SelectTrigger className="w-full">
-                          <SelectValue placeholder="Select a header row" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {sourceData.possibleHeaderRows.map(({ index, headers }) => (
-                            <SelectItem 
-                              key={index} 
-                              value={index.toString()}
-                            >
-                              Row {index + 1}: {headers.slice(0, 3).join(", ")}...
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <Label>Detected Headers</Label>
-                      <div className="bg-muted p-2 rounded text-sm overflow-x-auto whitespace-nowrap">
-                        {sourceData.headers.join(", ")}
-                      </div>
-                    </div>
-                  </div>
-                </CollapsibleContent>
-              </Collapsible>
+            <PasteDataDialog
+              idPrefix="source"
+              title="Paste Source Data"
+              disabled={isLoading}
+              onImport={(text) => handlePasteImport(text, true)}
+            />
+            
+            {renderParseProgress(true)}
+            
+            <UploadedFileList
+              files={sourceData}
+              activeIndex={activeSourceIndex}
+              onSelect={setActiveSourceIndex}
+              onRemove={(index) => handleRemoveFile(index, true)}
+            />
+            
+            {sourceData[activeSourceIndex] && (
+              <FileMetadataPanel
+                key={sourceData[activeSourceIndex].fileName}
+                title="Source File Metadata"
+                idPrefix="source"
+                fileData={sourceData[activeSourceIndex]}
+                open={sourceMetadataOpen}
+                onOpenChange={setSourceMetadataOpen}
+                onHeaderRowChange={(rowIndex, headerRowCount) => handleHeaderRowChange(rowIndex, headerRowCount, true)}
+                onHeaderRename={(columnIndex, name) => handleHeaderRename(columnIndex, name, true)}
+                onParseOptionsChange={(options) => handleParseOptionsChange(options, true)}
+                onSheetChange={(sheetName) => handleSheetChange(sheetName, true)}
+                onCellRangeChange={(cellRange) => handleCellRangeChange(cellRange, true)}
+                onColumnBoundariesChange={(boundaries) => handleColumnBoundariesChange(boundaries, true)}
+                onRowClassToggle={(rowClass, include) => handleRowClassToggle(rowClass, include, true)}
+                onTableBlocksChange={(selectedBlocks) => handleTableBlocksChange(selectedBlocks, true)}
+                onNumberFormatChange={(numberFormat) => handleNumberFormatChange(numberFormat, true)}
+                onDateFormatChange={(column, dateFormat) => handleDateFormatChange(column, dateFormat, true)}
+              />
+            )}
+            
+            {sourceData[activeSourceIndex] && (
+              <ImportDiagnosticsPanel
+                diagnostics={sourceData[activeSourceIndex].diagnostics}
+                onResolutionChange={(resolution, rowIndex) => handleResolutionChange(resolution, rowIndex, true)}
+              />
             )}
           </div>
 
@@ -302,84 +752,68 @@ const FileUploadForm = ({ onFilesUploaded }: FileUploadFormProps) => {
           <div className="space-y-4">
             <h3 className="text-lg font-medium">Target CSV</h3>
             <div className="border-2 border-dashed border-muted rounded-md p-4 text-center cursor-pointer hover:bg-muted/10 transition-colors"
-                 onClick={() => targetInputRef.current?.click()}>
+                 onClick={() => targetInputRef.current?.click()}
+                 onDragOver={(e) => e.preventDefault()}
+                 onDrop={(e) => handleFileDrop(e, false)}>
               <input
                 ref={targetInputRef}
                 type="file"
-                accept=".csv"
-                onChange={handleTargetFileChange}
+                accept={ACCEPTED_FILE_TYPES}
+                multiple
+                onChange={(e) => handleFileInputChange(e, false)}
                 className="hidden"
               />
               <div className="py-4 flex flex-col items-center justify-center">
-                {targetFile ? (
-                  <>
-                    <FileText className="h-8 w-8 text-csv-blue mb-2" />
-                    <p className="font-medium text-csv-blue">{targetFile.name}</p>
-                  </>
-                ) : (
-                  <>
-                    <Upload className="h-8 w-8 text-muted-foreground mb-2" />
-                    <span className="block text-sm font-medium mb-1">Click to upload Target CSV</span>
-                    <span className="text-xs text-muted-foreground">or drag and drop</span>
-                  </>
-                )}
+                <Upload className="h-8 w-8 text-muted-foreground mb-2" />
+                <span className="block text-sm font-medium mb-1">
+                  {targetData.length > 0 ? 'Click to add more Target files' : 'Click to upload Target CSV'}
+                </span>
+                <span className="text-xs text-muted-foreground">or drag and drop files or a folder</span>
               </div>
             </div>
             
-            {targetData && (
-              <Collapsible open={targetMetadataOpen} onOpenChange={setTargetMetadataOpen}>
-                <div className="flex items-center justify-between">
-                  <h4 className="text-sm font-semibold">Target File Metadata</h4>
-                  <CollapsibleTrigger asChild>
-                    <Button variant="ghost" size="sm">
-                      {targetMetadataOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
-                    </Button>
-                  </CollapsibleTrigger>
-                </div>
-                <CollapsibleContent>
-                  <div className="pt-2 pb-4 space-y-3">
-                    <div className="grid grid-cols-2 gap-2 text-sm">
-                      <div className="text-muted-foreground">File name:</div>
-                      <div className="font-medium">{targetData.fileName}</div>
-                      
-                      <div className="text-muted-foreground">Rows:</div>
-                      <div className="font-medium">{targetData.rowCount}</div>
-                      
-                      <div className="text-muted-foreground">Columns:</div>
-                      <div className="font-medium">{targetData.columnCount}</div>
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <Label htmlFor="targetHeaderRow">Header Row</Label>
-                      <Select
-                        value={targetData.selectedHeaderRowIndex.toString()}
-                        onValueChange={(value) => handleHeaderRowChange(value, false)}
-                      >
-                        <SelectTrigger className="w-full">
-                          <SelectValue placeholder="Select a header row" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {targetData.possibleHeaderRows.map(({ index, headers }) => (
-                            <SelectItem 
-                              key={index} 
-                              value={index.toString()}
-                            >
-                              Row {index + 1}: {headers.slice(0, 3).join(", ")}...
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <Label>Detected Headers</Label>
-                      <div className="bg-muted p-2 rounded text-sm overflow-x-auto whitespace-nowrap">
-                        {targetData.headers.join(", ")}
-                      </div>
-                    </div>
-                  </div>
-                </CollapsibleContent>
-              </Collapsible>
+            <PasteDataDialog
+              idPrefix="target"
+              title="Paste Target Data"
+              disabled={isLoading}
+              onImport={(text) => handlePasteImport(text, false)}
+            />
+            
+            {renderParseProgress(false)}
+            
+            <UploadedFileList
+              files={targetData}
+              activeIndex={activeTargetIndex}
+              onSelect={setActiveTargetIndex}
+              onRemove={(index) => handleRemoveFile(index, false)}
+            />
+            
+            {targetData[activeTargetIndex] && (
+              <FileMetadataPanel
+                key={targetData[activeTargetIndex].fileName}
+                title="Target File Metadata"
+                idPrefix="target"
+                fileData={targetData[activeTargetIndex]}
+                open={targetMetadataOpen}
+                onOpenChange={setTargetMetadataOpen}
+                onHeaderRowChange={(rowIndex, headerRowCount) => handleHeaderRowChange(rowIndex, headerRowCount, false)}
+                onHeaderRename={(columnIndex, name) => handleHeaderRename(columnIndex, name, false)}
+                onParseOptionsChange={(options) => handleParseOptionsChange(options, false)}
+                onSheetChange={(sheetName) => handleSheetChange(sheetName, false)}
+                onCellRangeChange={(cellRange) => handleCellRangeChange(cellRange, false)}
+                onColumnBoundariesChange={(boundaries) => handleColumnBoundariesChange(boundaries, false)}
+                onRowClassToggle={(rowClass, include) => handleRowClassToggle(rowClass, include, false)}
+                onTableBlocksChange={(selectedBlocks) => handleTableBlocksChange(selectedBlocks, false)}
+                onNumberFormatChange={(numberFormat) => handleNumberFormatChange(numberFormat, false)}
+                onDateFormatChange={(column, dateFormat) => handleDateFormatChange(column, dateFormat, false)}
+              />
+            )}
+            
+            {targetData[activeTargetIndex] && (
+              <ImportDiagnosticsPanel
+                diagnostics={targetData[activeTargetIndex].diagnostics}
+                onResolutionChange={(resolution, rowIndex) => handleResolutionChange(resolution, rowIndex, false)}
+              />
             )}
           </div>
         </div>
@@ -387,7 +821,7 @@ const FileUploadForm = ({ onFilesUploaded }: FileUploadFormProps) => {
         <Button 
           type="submit" 
           className="w-full bg-gradient-header text-white"
-          disabled={!sourceData || !targetData || isLoading}
+          disabled={sourceData.length === 0 || targetData.length === 0 || isLoading}
         >
           {isLoading ? 'Processing...' : 'Continue to Column Matching'}
         </Button>
@@ -5,6 +5,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { Plus, Trash2, Equal } from 'lucide-react';
+import { getColumnProfile, parseTypedValue } from '@/utils/profileUtils';
+import { type NumberFormat } from '@/utils/numberFormatUtils';
+import { buildKeyMap, buildRowKey, getKeyIndices } from '@/utils/keyUtils';
+import { createKeyNormalizer } from '@/utils/normalizationUtils';
+import { type KeyNormalizationStep } from '@/types/reconciliation';
+import { type ColumnProfile } from '@/types/profile';
 
 interface FormulaBuilderProps {
   sourceColumns: string[];
@@ -13,8 +19,17 @@ interface FormulaBuilderProps {
   targetData: string[][];
   sourceHeaders: string[];
   targetHeaders: string[];
-  uniqueKeyMapping: { sourceKey: string; targetKey: string };
+  uniqueKeyMapping: {
+    sourceKeys: string[];
+    targetKeys: string[];
+    sourceNormalization?: KeyNormalizationStep[];
+    targetNormalization?: KeyNormalizationStep[];
+  };
   onFormulaChange: (formula: string) => void;
+  sourceProfiles?: ColumnProfile[];
+  targetProfiles?: ColumnProfile[];
+  sourceNumberFormat?: NumberFormat;
+  targetNumberFormat?: NumberFormat;
 }
 
 type FormulaItem = {
@@ -35,6 +50,10 @@ const FormulaBuilder: React.FC<FormulaBuilderProps> = ({
   targetHeaders,
   uniqueKeyMapping,
   onFormulaChange,
+  sourceProfiles,
+  targetProfiles,
+  sourceNumberFormat,
+  targetNumberFormat,
 }) => {
   const [formulaItems, setFormulaItems] = useState<FormulaItem[]>([]);
   const [previewResult, setPreviewResult] = useState<{
@@ -93,25 +112,20 @@ const FormulaBuilder: React.FC<FormulaBuilderProps> = ({
       return;
     }
 
-    const sourceKeyIndex = sourceHeaders.indexOf(uniqueKeyMapping.sourceKey);
-    const targetKeyIndex = targetHeaders.indexOf(uniqueKeyMapping.targetKey);
+    const sourceKeyIndices = getKeyIndices(sourceHeaders, uniqueKeyMapping.sourceKeys);
+    const targetKeyIndices = getKeyIndices(targetHeaders, uniqueKeyMapping.targetKeys);
 
-    if (sourceKeyIndex === -1 || targetKeyIndex === -1) {
+    if (!sourceKeyIndices || !targetKeyIndices) {
       setExampleMatch(null);
       return;
     }
 
-    const targetKeyMap = new Map<string, string[]>();
-    targetData.forEach(row => {
-      const keyValue = row[targetKeyIndex];
-      if (keyValue && keyValue.trim()) {
-        targetKeyMap.set(keyValue, row);
-      }
-    });
+    const targetKeyMap = buildKeyMap(targetData, targetKeyIndices, createKeyNormalizer(uniqueKeyMapping.targetNormalization));
+    const normalizeSource = createKeyNormalizer(uniqueKeyMapping.sourceNormalization);
 
     for (const sourceRow of sourceData) {
-      const sourceKeyValue = sourceRow[sourceKeyIndex];
-      if (sourceKeyValue && targetKeyMap.has(sourceKeyValue)) {
+      const sourceKeyValue = buildRowKey(sourceRow, sourceKeyIndices, normalizeSource);
+      if (sourceKeyValue !== null && targetKeyMap.has(sourceKeyValue)) {
         setExampleMatch({
           sourceRow,
           targetRow: targetKeyMap.get(sourceKeyValue)!
@@ -216,20 +230,19 @@ const FormulaBuilder: React.FC<FormulaBuilderProps> = ({
 
     if (source === 'source') {
       const columnIndex = sourceHeaders.indexOf(columnName);
-      return columnIndex !== -1 ? parseValueIfNumeric(exampleMatch.sourceRow[columnIndex]) : '';
+      return columnIndex !== -1 ? parseValue(exampleMatch.sourceRow[columnIndex], getColumnProfile(sourceProfiles, columnName), sourceNumberFormat) : '';
     } else if (source === 'target') {
       const columnIndex = targetHeaders.indexOf(columnName);
-      return columnIndex !== -1 ? parseValueIfNumeric(exampleMatch.targetRow[columnIndex]) : '';
+      return columnIndex !== -1 ? parseValue(exampleMatch.targetRow[columnIndex], getColumnProfile(targetProfiles, columnName), targetNumberFormat) : '';
     }
     
     return '';
   };
 
-  const parseValueIfNumeric = (value: string): string | number => {
-    if (!isNaN(Number(value)) && value.trim() !== '') {
-      return Number(value);
-    }
-    return value;
+  // Typed columns are read by their type; others as a number when they look like one, in the
+  // number format of their dataset
+  const parseValue = (value: string, profile: ColumnProfile | undefined, numberFormat?: NumberFormat): string | number => {
+    return parseTypedValue(value, profile, numberFormat);
   };
 
   const addColumn = (columnName: string, source: 'source' | 'target') => {
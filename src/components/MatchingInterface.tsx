@@ -1,40 +1,38 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { toast } from 'sonner';
 import { findMatchingUniqueKeys, detectUniqueKeys, analyzeColumnRelationship } from '@/utils/csvUtils';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { COLUMN_TYPE_LABELS, getColumnType } from '@/utils/profileUtils';
+import { formatKeyColumns } from '@/utils/keyUtils';
+import { suggestAmountDateCriteria, validateAmountDateCriteria } from '@/utils/amountDateUtils';
+import { createAmountDateRule, createKeyRule, replacePrimaryRule, validateMatchingRules } from '@/utils/matchingRuleUtils';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Check, ChevronRight, Key, Link, X } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import FormulaBuilder from './FormulaBuilder';
+import { KeyColumnsPicker } from './matching/KeyColumnsPicker';
+import { KeyNormalizationPanel } from './matching/KeyNormalizationPanel';
+import { AmountDateCriteriaEditor } from './matching/AmountDateCriteriaEditor';
+import { MatchingRulesEditor } from './matching/MatchingRulesEditor';
+import {
+  type AmountDateCriteria,
+  type KeyNormalizationStep,
+  type MatchingRule,
+  type ReconciliationData,
+  type ReconciliationFormula,
+  type ReconciliationKeyMapping
+} from '@/types/reconciliation';
 
 interface MatchingInterfaceProps {
-  sourceData: {
-    headers: string[];
-    data: string[][];
-    fileName: string;
-    headerRowIndex: number;
-    rowCount: number;
-    columnCount: number;
-  };
-  targetData: {
-    headers: string[];
-    data: string[][];
-    fileName: string;
-    headerRowIndex: number;
-    rowCount: number;
-    columnCount: number;
-  };
-  onUniqueKeySelected: (uniqueKey: {
-    sourceKey: string;
-    targetKey: string;
-    confidence: number;
-  }) => void;
+  sourceData: ReconciliationData;
+  targetData: ReconciliationData;
+  onMatchingRulesSelected: (rules: MatchingRule[]) => void;
   onReconciliationColumnsSelected: (columns: {
     sourceColumns: string[];
     targetColumns: string[];
@@ -47,36 +45,41 @@ const STEPS = {
   IDENTIFY_KEY: 'IDENTIFY_KEY',
   CONFIRM_KEY: 'CONFIRM_KEY',
   SELECT_COLUMNS: 'SELECT_COLUMNS',
-  CONFIRM_FORMULA: 'CONFIRM_FORMULA'
+  CONFIRM_FORMULA: 'CONFIRM_FORMULA',
+  MATCHING_RULES: 'MATCHING_RULES'
 };
 
 const MatchingInterface = ({ 
   sourceData, 
   targetData, 
-  onUniqueKeySelected, 
+  onMatchingRulesSelected,
   onReconciliationColumnsSelected,
   onReset 
 }: MatchingInterfaceProps) => {
   const [step, setStep] = useState(STEPS.IDENTIFY_KEY);
   const [isProcessing, setIsProcessing] = useState(false);
   
+  // Pair rows on a unique key, or by amount and date when the data has no shared key
+  const [matchingMode, setMatchingMode] = useState<'key' | 'amount-date'>('key');
+  const [amountDateCriteria, setAmountDateCriteria] = useState<AmountDateCriteria>(
+    () => suggestAmountDateCriteria(sourceData, targetData)
+  );
+  
   // Key identification state
-  const [potentialKeys, setPotentialKeys] = useState<Array<{
-    sourceKey: string;
-    targetKey: string;
-    confidence: number;
+  const [potentialKeys, setPotentialKeys] = useState<Array<ReconciliationKeyMapping & {
     matchingValuesCount: number;
   }>>([]);
   
-  const [selectedUniqueKey, setSelectedUniqueKey] = useState<{
-    sourceKey: string;
-    targetKey: string;
-    confidence: number;
-  } | null>(null);
+  const [selectedUniqueKey, setSelectedUniqueKey] = useState<ReconciliationKeyMapping | null>(null);
   
+  // Manually picked key columns, several per side for a composite key
   const [manualKeySelection, setManualKeySelection] = useState(false);
-  const [manualSourceKey, setManualSourceKey] = useState('');
-  const [manualTargetKey, setManualTargetKey] = useState('');
+  const [manualSourceKeys, setManualSourceKeys] = useState<string[]>([]);
+  const [manualTargetKeys, setManualTargetKeys] = useState<string[]>([]);
+  
+  // Clean-up applied to the key values of each side before detection and the join
+  const [sourceNormalization, setSourceNormalization] = useState<KeyNormalizationStep[]>([]);
+  const [targetNormalization, setTargetNormalization] = useState<KeyNormalizationStep[]>([]);
   
   // Reconciliation columns state
   const [selectedSourceColumns, setSelectedSourceColumns] = useState<string[]>([]);
@@ -85,23 +88,70 @@ const MatchingInterface = ({
   const [customFormula, setCustomFormula] = useState('');
   const [useCustomFormula, setUseCustomFormula] = useState(false);
   
+  // Matching rules state; the first rule comes from the key or amount columns picked above
+  const [matchingRules, setMatchingRules] = useState<MatchingRule[]>([]);
+  const [confirmedColumns, setConfirmedColumns] = useState<ReconciliationFormula | null>(null);
+  
   // Find potential unique keys when component mounts
   useEffect(() => {
     // Auto-detect potential unique keys for select dropdowns
     if (step === STEPS.IDENTIFY_KEY && manualKeySelection) {
-      const sourceKeys = detectUniqueKeys(sourceData.headers, sourceData.data);
-      const targetKeys = detectUniqueKeys(targetData.headers, targetData.data);
+      const sourceKeys = detectUniqueKeys(
+        sourceData.headers,
+        sourceData.data,
+        sourceData.keyCandidates,
+        sourceData.columnProfiles,
+        sourceNormalization
+      );
+      const targetKeys = detectUniqueKeys(
+        targetData.headers,
+        targetData.data,
+        targetData.keyCandidates,
+        targetData.columnProfiles,
+        targetNormalization
+      );
       
       if (sourceKeys.length > 0) {
-        setManualSourceKey(sourceKeys[0]);
+        setManualSourceKeys(sourceKeys[0]);
       }
       
       if (targetKeys.length > 0) {
-        setManualTargetKey(targetKeys[0]);
+        setManualTargetKeys(targetKeys[0]);
       }
     }
   }, [step, manualKeySelection]);
   
+  // The key mapping in use, picked from the detected keys or by hand
+  const getKeyInfo = (): ReconciliationKeyMapping => {
+    const keyInfo = manualKeySelection ?
+      { sourceKeys: manualSourceKeys, targetKeys: manualTargetKeys, confidence: 0 } :
+      selectedUniqueKey!;
+    return { ...keyInfo, sourceNormalization, targetNormalization };
+  };
+  
+  // Key columns the normalization preview runs on
+  const previewKeyColumns = useMemo(() => {
+    if (!manualKeySelection) return selectedUniqueKey;
+    return manualSourceKeys.length > 0 && manualTargetKeys.length > 0
+      ? { sourceKeys: manualSourceKeys, targetKeys: manualTargetKeys }
+      : null;
+  }, [manualKeySelection, selectedUniqueKey, manualSourceKeys, manualTargetKeys]);
+  
+  // Detected keys depend on the normalization, so changing it means detecting them again
+  const handleNormalizationChange = (steps: KeyNormalizationStep[], isSource: boolean) => {
+    if (isSource) {
+      setSourceNormalization(steps);
+    } else {
+      setTargetNormalization(steps);
+    }
+    setPotentialKeys([]);
+  };
+  
+  const isSelectedKey = (key: ReconciliationKeyMapping) => {
+    return formatKeyColumns(selectedUniqueKey?.sourceKeys ?? []) === formatKeyColumns(key.sourceKeys) &&
+      formatKeyColumns(selectedUniqueKey?.targetKeys ?? []) === formatKeyColumns(key.targetKeys);
+  };
+  
   const handleFindUniqueKeys = () => {
     setIsProcessing(true);
     
@@ -111,7 +161,13 @@ const MatchingInterface = ({
           sourceData.headers, 
           sourceData.data, 
           targetData.headers, 
-          targetData.data
+          targetData.data,
+          sourceData.keyCandidates,
+          targetData.keyCandidates,
+          sourceData.columnProfiles,
+          targetData.columnProfiles,
+          sourceNormalization,
+          targetNormalization
         );
         
         setPotentialKeys(matchingKeys);
@@ -119,8 +175,8 @@ const MatchingInterface = ({
         
         if (matchingKeys.length > 0) {
           setSelectedUniqueKey({
-            sourceKey: matchingKeys[0].sourceKey,
-            targetKey: matchingKeys[0].targetKey,
+            sourceKeys: matchingKeys[0].sourceKeys,
+            targetKeys: matchingKeys[0].targetKeys,
             confidence: matchingKeys[0].confidence
           });
           
@@ -142,14 +198,20 @@ const MatchingInterface = ({
     
     if (manualKeySelection) {
       // Use manually selected keys
-      if (!manualSourceKey || !manualTargetKey) {
+      if (manualSourceKeys.length === 0 || manualTargetKeys.length === 0) {
         toast.error('Please select both source and target keys');
         return;
       }
       
+      // Composite keys are compared value by value, in the order picked
+      if (manualSourceKeys.length !== manualTargetKeys.length) {
+        toast.error('Pick the same number of key columns on both sides');
+        return;
+      }
+      
       keyToUse = {
-        sourceKey: manualSourceKey,
-        targetKey: manualTargetKey,
+        sourceKeys: manualSourceKeys,
+        targetKeys: manualTargetKeys,
         confidence: 0 // User-defined has no auto-calculated confidence
       };
     } else if (!selectedUniqueKey) {
@@ -157,17 +219,38 @@ const MatchingInterface = ({
       return;
     }
     
-    onUniqueKeySelected(keyToUse!);
+    const keyRule = createKeyRule({ ...keyToUse!, sourceNormalization, targetNormalization });
+    setMatchingRules(rules => replacePrimaryRule(rules, keyRule));
     setStep(STEPS.SELECT_COLUMNS);
     toast.success('Unique key mapping confirmed');
   };
   
+  const handleConfirmAmountDate = () => {
+    const error = validateAmountDateCriteria(amountDateCriteria, sourceData, targetData);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    
+    const { sourceAmountColumn, targetAmountColumn } = amountDateCriteria;
+    const amountDateRule = createAmountDateRule(amountDateCriteria);
+    setMatchingRules(rules => replacePrimaryRule(rules, amountDateRule));
+    // The amounts are what gets reconciled, so the column and formula steps are skipped
+    setConfirmedColumns({
+      sourceColumns: [sourceAmountColumn],
+      targetColumns: [targetAmountColumn],
+      formula: `${sourceAmountColumn} = ${targetAmountColumn}`
+    });
+    setStep(STEPS.MATCHING_RULES);
+    toast.success('Amount and date matching confirmed');
+  };
+  
   const handleSelectUniqueKey = (index: number) => {
     const selected = potentialKeys[index];
     
     setSelectedUniqueKey({
-      sourceKey: selected.sourceKey,
-      targetKey: selected.targetKey,
+      sourceKeys: selected.sourceKeys,
+      targetKeys: selected.targetKeys,
       confidence: selected.confidence
     });
   };
@@ -199,6 +282,7 @@ const MatchingInterface = ({
     setTimeout(() => {
       try {
         // Analyze relationship between selected columns
+        const keyInfo = getKeyInfo();
         const result = analyzeColumnRelationship(
           selectedSourceColumns,
           sourceData.data,
@@ -206,10 +290,11 @@ const MatchingInterface = ({
           selectedTargetColumns,
           targetData.data,
           targetData.headers,
-          {
-            sourceKey: selectedUniqueKey!.sourceKey,
-            targetKey: selectedUniqueKey!.targetKey
-          }
+          keyInfo,
+          sourceData.columnProfiles,
+          targetData.columnProfiles,
+          sourceData.numberFormat,
+          targetData.numberFormat
         );
         
         setFormulaResult(result);
@@ -234,14 +319,26 @@ const MatchingInterface = ({
   const handleConfirmFormula = () => {
     const formula = useCustomFormula ? customFormula : (formulaResult?.formula || '');
     
-    onReconciliationColumnsSelected({
+    setConfirmedColumns({
       sourceColumns: selectedSourceColumns,
       targetColumns: selectedTargetColumns,
       formula
     });
+    setStep(STEPS.MATCHING_RULES);
     
     toast.success('Reconciliation formula confirmed');
   };
+  
+  const handleStartReconciliation = () => {
+    const error = validateMatchingRules(matchingRules, sourceData, targetData);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    
+    onMatchingRulesSelected(matchingRules.map(rule => ({ ...rule, name: rule.name.trim() })));
+    onReconciliationColumnsSelected(confirmedColumns!);
+  };
 
   const handleCustomFormulaChange = (formula: string) => {
     setCustomFormula(formula);
@@ -251,157 +348,195 @@ const MatchingInterface = ({
     return (
       <>
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-2xl font-bold">Unique Key Identification</h2>
+          <h2 className="text-2xl font-bold">
+            {matchingMode === 'key' ? 'Unique Key Identification' : 'Amount and Date Matching'}
+          </h2>
           <div className="flex items-center space-x-4">
             <div className="flex items-center space-x-2">
-              <Switch 
-                checked={manualKeySelection} 
-                onCheckedChange={setManualKeySelection} 
-                id="manual-selection"
-              />
-              <Label htmlFor="manual-selection">Manual Selection</Label>
+              <Label htmlFor="matching-mode">Match by</Label>
+              <Select value={matchingMode} onValueChange={(value) => setMatchingMode(value as 'key' | 'amount-date')}>
+                <SelectTrigger id="matching-mode" className="h-9 w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="key">Unique key</SelectItem>
+                  <SelectItem value="amount-date">Amount and date</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
+            {matchingMode === 'key' && (
+              <div className="flex items-center space-x-2">
+                <Switch 
+                  checked={manualKeySelection} 
+                  onCheckedChange={setManualKeySelection} 
+                  id="manual-selection"
+                />
+                <Label htmlFor="manual-selection">Manual Selection</Label>
+              </div>
+            )}
           </div>
         </div>
         
-        <Card className="mb-6">
-          <CardContent className="p-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <h3 className="text-lg font-medium mb-2">Source File</h3>
-                <div className="text-sm space-y-1 mb-4">
-                  <div><span className="text-muted-foreground">Filename:</span> {sourceData.fileName}</div>
-                  <div><span className="text-muted-foreground">Rows:</span> {sourceData.rowCount}</div>
-                  <div><span className="text-muted-foreground">Header Row:</span> {sourceData.headerRowIndex + 1}</div>
-                </div>
-                
-                {manualKeySelection && (
-                  <div className="space-y-2 mt-4">
-                    <Label htmlFor="sourceKey">Select Source Unique Key</Label>
-                    <Select value={manualSourceKey} onValueChange={setManualSourceKey}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select a column" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {sourceData.headers.map((header) => (
-                          <SelectItem key={header} value={header}>
-                            {header}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+        {matchingMode === 'amount-date' ? (
+          <Card className="mb-6">
+            <CardContent className="p-6">
+              <AmountDateCriteriaEditor
+                sourceData={sourceData}
+                targetData={targetData}
+                criteria={amountDateCriteria}
+                onChange={setAmountDateCriteria}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="mb-6">
+            <CardContent className="p-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <h3 className="text-lg font-medium mb-2">Source File</h3>
+                  <div className="text-sm space-y-1 mb-4">
+                    <div><span className="text-muted-foreground">Filename:</span> {sourceData.fileName}</div>
+                    <div><span className="text-muted-foreground">Rows:</span> {sourceData.rowCount}</div>
+                    <div><span className="text-muted-foreground">Header Row:</span> {sourceData.headerRowIndex + 1}</div>
                   </div>
-                )}
-              </div>
-              
-              <div>
-                <h3 className="text-lg font-medium mb-2">Target File</h3>
-                <div className="text-sm space-y-1 mb-4">
-                  <div><span className="text-muted-foreground">Filename:</span> {targetData.fileName}</div>
-                  <div><span className="text-muted-foreground">Rows:</span> {targetData.rowCount}</div>
-                  <div><span className="text-muted-foreground">Header Row:</span> {targetData.headerRowIndex + 1}</div>
-                </div>
                 
-                {manualKeySelection && (
-                  <div className="space-y-2 mt-4">
-                    <Label htmlFor="targetKey">Select Target Unique Key</Label>
-                    <Select value={manualTargetKey} onValueChange={setManualTargetKey}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select a column" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {targetData.headers.map((header) => (
-                          <SelectItem key={header} value={header}>
-                            {header}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                  {manualKeySelection && (
+                    <div className="mt-4">
+                      <KeyColumnsPicker
+                        id="sourceKey"
+                        label="Select Source Unique Key"
+                        headers={sourceData.headers}
+                        keyColumns={manualSourceKeys}
+                        onChange={setManualSourceKeys}
+                      />
+                    </div>
+                  )}
+                </div>
+              
+                <div>
+                  <h3 className="text-lg font-medium mb-2">Target File</h3>
+                  <div className="text-sm space-y-1 mb-4">
+                    <div><span className="text-muted-foreground">Filename:</span> {targetData.fileName}</div>
+                    <div><span className="text-muted-foreground">Rows:</span> {targetData.rowCount}</div>
+                    <div><span className="text-muted-foreground">Header Row:</span> {targetData.headerRowIndex + 1}</div>
                   </div>
-                )}
+                
+                  {manualKeySelection && (
+                    <div className="mt-4">
+                      <KeyColumnsPicker
+                        id="targetKey"
+                        label="Select Target Unique Key"
+                        headers={targetData.headers}
+                        keyColumns={manualTargetKeys}
+                        onChange={setManualTargetKeys}
+                      />
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
             
-            {!manualKeySelection && (
-              <>
-                {potentialKeys.length === 0 ? (
-                  <div className="flex justify-center mt-6">
-                    <Button
-                      onClick={handleFindUniqueKeys}
-                      className="bg-gradient-header text-white"
-                      disabled={isProcessing}
-                    >
-                      {isProcessing ? 'Analyzing...' : 'Identify Unique Keys'}
-                    </Button>
-                  </div>
-                ) : (
-                  <div className="mt-6 space-y-4">
-                    <h3 className="text-lg font-medium">Potential Matching Keys</h3>
-                    <div className="space-y-2">
-                      {potentialKeys.map((key, index) => (
-                        <div 
-                          key={index}
-                          className={`border rounded-lg p-3 flex items-center justify-between cursor-pointer hover:bg-muted/50 transition-colors ${
-                            selectedUniqueKey?.sourceKey === key.sourceKey && 
-                            selectedUniqueKey?.targetKey === key.targetKey ? 
-                            'border-primary bg-primary/5' : ''
-                          }`}
-                          onClick={() => handleSelectUniqueKey(index)}
-                        >
-                          <div className="flex items-center space-x-2">
-                            <Key className="h-4 w-4 text-muted-foreground" />
-                            <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-2">
-                              <div className="font-medium">{key.sourceKey}</div>
-                              <ChevronRight className="h-4 w-4 hidden sm:block" />
-                              <div className="font-medium">{key.targetKey}</div>
+              <KeyNormalizationPanel
+                sourceData={sourceData}
+                targetData={targetData}
+                keyColumns={previewKeyColumns}
+                sourceSteps={sourceNormalization}
+                targetSteps={targetNormalization}
+                onSourceStepsChange={(steps) => handleNormalizationChange(steps, true)}
+                onTargetStepsChange={(steps) => handleNormalizationChange(steps, false)}
+              />
+            
+              {!manualKeySelection && (
+                <>
+                  {potentialKeys.length === 0 ? (
+                    <div className="flex justify-center mt-6">
+                      <Button
+                        onClick={handleFindUniqueKeys}
+                        className="bg-gradient-header text-white"
+                        disabled={isProcessing}
+                      >
+                        {isProcessing ? 'Analyzing...' : 'Identify Unique Keys'}
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="mt-6 space-y-4">
+                      <h3 className="text-lg font-medium">Potential Matching Keys</h3>
+                      <div className="space-y-2">
+                        {potentialKeys.map((key, index) => (
+                          <div 
+                            key={index}
+                            className={`border rounded-lg p-3 flex items-center justify-between cursor-pointer hover:bg-muted/50 transition-colors ${
+                              isSelectedKey(key) ? 'border-primary bg-primary/5' : ''
+                            }`}
+                            onClick={() => handleSelectUniqueKey(index)}
+                          >
+                            <div className="flex items-center space-x-2">
+                              <Key className="h-4 w-4 text-muted-foreground" />
+                              <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-2">
+                                <div className="font-medium">{formatKeyColumns(key.sourceKeys)}</div>
+                                <ChevronRight className="h-4 w-4 hidden sm:block" />
+                                <div className="font-medium">{formatKeyColumns(key.targetKeys)}</div>
+                              </div>
+                            </div>
+                            <div className="flex items-center space-x-3">
+                              <Badge variant="outline" className="whitespace-nowrap">
+                                {key.matchingValuesCount} matches
+                              </Badge>
+                              <Badge className={`${
+                                key.confidence > 80 ? 'bg-green-500' :
+                                key.confidence > 50 ? 'bg-yellow-500' : 'bg-red-500'
+                              }`}>
+                                {key.confidence}% match
+                              </Badge>
+                              {isSelectedKey(key) && (
+                                <Check className="h-4 w-4" />
+                              )}
                             </div>
                           </div>
-                          <div className="flex items-center space-x-3">
-                            <Badge variant="outline" className="whitespace-nowrap">
-                              {key.matchingValuesCount} matches
-                            </Badge>
-                            <Badge className={`${
-                              key.confidence > 80 ? 'bg-green-500' :
-                              key.confidence > 50 ? 'bg-yellow-500' : 'bg-red-500'
-                            }`}>
-                              {key.confidence}% match
-                            </Badge>
-                            {selectedUniqueKey?.sourceKey === key.sourceKey && 
-                             selectedUniqueKey?.targetKey === key.targetKey && (
-                              <Check className="h-4 w-4" />
-                            )}
-                          </div>
-                        </div>
-                      ))}
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                )}
-              </>
-            )}
-          </CardContent>
-        </Card>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
         
         <div className="flex justify-between">
           <Button variant="outline" onClick={onReset}>
             Back
           </Button>
-          <Button 
-            onClick={handleConfirmUniqueKey}
-            className="bg-gradient-header text-white"
-            disabled={(!selectedUniqueKey && !manualKeySelection) || 
-                     (manualKeySelection && (!manualSourceKey || !manualTargetKey))}
-          >
-            Confirm Key Mapping
-          </Button>
+          {matchingMode === 'amount-date' ? (
+            <Button 
+              onClick={handleConfirmAmountDate}
+              className="bg-gradient-header text-white"
+            >
+              Confirm Matching Columns
+            </Button>
+          ) : (
+            <Button 
+              onClick={handleConfirmUniqueKey}
+              className="bg-gradient-header text-white"
+              disabled={(!selectedUniqueKey && !manualKeySelection) || 
+                       (manualKeySelection && (manualSourceKeys.length === 0 || manualTargetKeys.length === 0))}
+            >
+              Confirm Key Mapping
+            </Button>
+          )}
         </div>
       </>
     );
   };
   
+  // Show the inferred type next to a column name so amounts are easy to pick out
+  const renderColumnType = (data: ReconciliationData, header: string) => {
+    const type = getColumnType(data.columnProfiles, header);
+    if (!type) return null;
+    return <span className="text-xs text-muted-foreground">{COLUMN_TYPE_LABELS[type]}</span>;
+  };
+  
   const renderSelectColumns = () => {
-    const keyInfo = manualKeySelection ? 
-      { sourceKey: manualSourceKey, targetKey: manualTargetKey, confidence: 0 } :
-      selectedUniqueKey!;
+    const keyInfo = getKeyInfo();
     
     return (
       <>
@@ -416,13 +551,13 @@ const MatchingInterface = ({
                 <div className="flex justify-between items-center mb-3">
                   <h3 className="text-lg font-medium">Source Columns</h3>
                   <Badge variant="outline" className="font-normal">
-                    Key: {keyInfo.sourceKey}
+                    Key: {formatKeyColumns(keyInfo.sourceKeys)}
                   </Badge>
                 </div>
                 
                 <div className="max-h-80 overflow-y-auto space-y-2 border rounded-md p-3">
                   {sourceData.headers
-                    .filter(header => header !== keyInfo.sourceKey) // Exclude the key column
+                    .filter(header => !keyInfo.sourceKeys.includes(header)) // Exclude the key columns
                     .map(header => (
                       <div key={header} className="flex items-center space-x-2">
                         <Checkbox 
@@ -433,6 +568,7 @@ const MatchingInterface = ({
                         <Label htmlFor={`source-${header}`} className="cursor-pointer">
                           {header}
                         </Label>
+                        {renderColumnType(sourceData, header)}
                       </div>
                     ))
                   }
@@ -449,13 +585,13 @@ const MatchingInterface = ({
                 <div className="flex justify-between items-center mb-3">
                   <h3 className="text-lg font-medium">Target Columns</h3>
                   <Badge variant="outline" className="font-normal">
-                    Key: {keyInfo.targetKey}
+                    Key: {formatKeyColumns(keyInfo.targetKeys)}
                   </Badge>
                 </div>
                 
                 <div className="max-h-80 overflow-y-auto space-y-2 border rounded-md p-3">
                   {targetData.headers
-                    .filter(header => header !== keyInfo.targetKey) // Exclude the key column
+                    .filter(header => !keyInfo.targetKeys.includes(header)) // Exclude the key columns
                     .map(header => (
                       <div key={header} className="flex items-center space-x-2">
                         <Checkbox 
@@ -466,6 +602,7 @@ const MatchingInterface = ({
                         <Label htmlFor={`target-${header}`} className="cursor-pointer">
                           {header}
                         </Label>
+                        {renderColumnType(targetData, header)}
                       </div>
                     ))
                   }
@@ -483,7 +620,7 @@ const MatchingInterface = ({
               <div className="bg-muted rounded-md p-4">
                 <div className="text-sm mb-2">
                   <span className="font-medium">Selected Key Mapping: </span> 
-                  {keyInfo.sourceKey} <ChevronRight className="inline h-3 w-3" /> {keyInfo.targetKey}
+                  {formatKeyColumns(keyInfo.sourceKeys)} <ChevronRight className="inline h-3 w-3" /> {formatKeyColumns(keyInfo.targetKeys)}
                   {keyInfo.confidence > 0 && (
                     <Badge className="ml-2">
                       {keyInfo.confidence}% confidence
@@ -520,9 +657,7 @@ const MatchingInterface = ({
   };
   
   const renderConfirmFormula = () => {
-    const keyInfo = manualKeySelection ? 
-      { sourceKey: manualSourceKey, targetKey: manualTargetKey, confidence: 0 } :
-      selectedUniqueKey!;
+    const keyInfo = getKeyInfo();
       
     return (
       <>
@@ -572,10 +707,11 @@ const MatchingInterface = ({
                   targetData={targetData.data}
                   sourceHeaders={sourceData.headers}
                   targetHeaders={targetData.headers}
-                  uniqueKeyMapping={{
-                    sourceKey: keyInfo.sourceKey,
-                    targetKey: keyInfo.targetKey
-                  }}
+                  sourceProfiles={sourceData.columnProfiles}
+                  targetProfiles={targetData.columnProfiles}
+                  sourceNumberFormat={sourceData.numberFormat}
+                  targetNumberFormat={targetData.numberFormat}
+                  uniqueKeyMapping={keyInfo}
                   onFormulaChange={handleCustomFormulaChange}
                 />
               )}
@@ -601,6 +737,43 @@ const MatchingInterface = ({
           <Button 
             onClick={handleConfirmFormula}
             className="bg-gradient-header text-white"
+          >
+            Confirm Formula
+          </Button>
+        </div>
+      </>
+    );
+  };
+  
+  const renderMatchingRules = () => {
+    return (
+      <>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold">Matching Rules</h2>
+        </div>
+        
+        <Card className="mb-6">
+          <CardContent className="p-6">
+            <MatchingRulesEditor
+              sourceData={sourceData}
+              targetData={targetData}
+              rules={matchingRules}
+              onChange={setMatchingRules}
+            />
+          </CardContent>
+        </Card>
+        
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => setStep(matchingMode === 'key' ? STEPS.CONFIRM_FORMULA : STEPS.IDENTIFY_KEY)}
+          >
+            Back
+          </Button>
+          <Button 
+            onClick={handleStartReconciliation}
+            className="bg-gradient-header text-white"
+            disabled={matchingRules.length === 0}
           >
             Start Reconciliation
           </Button>
@@ -643,6 +816,7 @@ const MatchingInterface = ({
       {step === STEPS.IDENTIFY_KEY && renderUniqueKeyIdentification()}
       {step === STEPS.SELECT_COLUMNS && renderSelectColumns()}
       {step === STEPS.CONFIRM_FORMULA && renderConfirmFormula()}
+      {step === STEPS.MATCHING_RULES && renderMatchingRules()}
     </div>
   );
 };
@@ -4,8 +4,20 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
-import { type ReconciliationData, type ReconciliationKeyMapping, type ReconciliationFormula, type ReconciliationResult } from '@/types/reconciliation';
+import {
+  type MatchedTransaction,
+  type MatchingRule,
+  type ReconciliationData,
+  type ReconciliationFormula,
+  type ReconciliationResult,
+  type ReconciliationSummary,
+  type UnmatchedTransaction
+} from '@/types/reconciliation';
 import { evaluateFormulaForRow } from '@/utils/formulaUtils';
+import { findDateColumn } from '@/utils/profileUtils';
+import { toISODate } from '@/utils/dateFormatUtils';
+import { createRowLabeler, describeMatchingRule, MATCHING_RULE_TYPES, runMatchingRule } from '@/utils/matchingRuleUtils';
+import { DatasetMetadata } from './DatasetMetadata';
 import { SummaryStats } from './reconciliation/SummaryStats';
 import { SummaryCharts } from './reconciliation/SummaryCharts';
 import { MatchedTransactionsTable } from './reconciliation/MatchedTransactionsTable';
@@ -14,15 +26,23 @@ import { UnmatchedTransactionsTable } from './reconciliation/UnmatchedTransactio
 interface ReconciliationInterfaceProps {
   sourceData: ReconciliationData;
   targetData: ReconciliationData;
-  uniqueKeyMapping: ReconciliationKeyMapping;
+  // Passes that pair the rows, in order
+  matchingRules: MatchingRule[];
   reconciliationColumns: ReconciliationFormula;
   onReset: () => void;
 }
 
+// A row of either side, read once for every way of pairing it
+interface RowItem {
+  row: Record<string, string>;
+  value: number | string;
+  date?: string;
+}
+
 const ReconciliationInterface = ({
   sourceData,
   targetData,
-  uniqueKeyMapping,
+  matchingRules,
   reconciliationColumns,
   onReset
 }: ReconciliationInterfaceProps) => {
@@ -30,120 +50,182 @@ const ReconciliationInterface = ({
   const [result, setResult] = useState<ReconciliationResult | null>(null);
   const [activeTab, setActiveTab] = useState('summary');
 
+  const sourceDateColumn = findDateColumn(sourceData.columnProfiles);
+  const targetDateColumn = findDateColumn(targetData.columnProfiles);
+  const readDate = (row: Record<string, string>, column: typeof sourceDateColumn) =>
+    column ? toISODate(row[column.name], column.dateFormat) ?? undefined : undefined;
+
   const performReconciliation = () => {
     setIsReconciling(true);
 
-    setTimeout(() => {
+    setTimeout(async () => {
       try {
-        const sourceMap = new Map();
-        const sourceKeyIndex = sourceData.headers.indexOf(uniqueKeyMapping.sourceKey);
-
-        sourceData.data.forEach(row => {
-          const keyValue = row[sourceKeyIndex];
-          if (keyValue) {
+        // Every row of a side with its reconciled value and date
+        const readRows = (data: ReconciliationData, isSource: boolean): RowItem[] => {
+          const dateColumn = isSource ? sourceDateColumn : targetDateColumn;
+          return data.data.map(row => {
             const rowObj: Record<string, string> = {};
-            sourceData.headers.forEach((header, idx) => {
+            data.headers.forEach((header, idx) => {
               rowObj[header] = row[idx];
             });
 
-            const sourceValue = evaluateFormulaForRow(
-              reconciliationColumns.sourceColumns,
+            const value = evaluateFormulaForRow(
+              isSource ? reconciliationColumns.sourceColumns : reconciliationColumns.targetColumns,
               rowObj,
               reconciliationColumns.formula,
-              true
+              isSource,
+              data.columnProfiles,
+              data.numberFormat
             );
 
-            sourceMap.set(keyValue, { row: rowObj, value: sourceValue });
-          }
-        });
+            return { row: rowObj, value, date: readDate(rowObj, dateColumn) };
+          });
+        };
+        const sourceRows = readRows(sourceData, true);
+        const targetRows = readRows(targetData, false);
 
-        const targetKeyIndex = targetData.headers.indexOf(uniqueKeyMapping.targetKey);
-        const matched = [];
-        const unmatchedSource = [];
-        const unmatchedTarget = [];
+        const matched: MatchedTransaction[] = [];
+        const unmatched: UnmatchedTransaction[] = [];
 
         let totalSourceValue = 0;
         let totalTargetValue = 0;
         let totalDifference = 0;
         let perfectMatches = 0;
         let valueMismatches = 0;
+        let fuzzyMatches = 0;
+        let unreadableTransactions = 0;
 
-        targetData.data.forEach(row => {
-          const keyValue = row[targetKeyIndex];
-          if (!keyValue) return;
+        // Compare the values of a pair and add it to the results. Fuzzy pairs carry their
+        // similarity so they can be reviewed, and still count as mismatches when values differ.
+        const addMatch = (
+          sourceItem: RowItem,
+          targetItem: RowItem,
+          match: Pick<MatchedTransaction, 'key' | 'rule'> & Partial<MatchedTransaction>
+        ) => {
+          let difference = null;
+          let status: MatchedTransaction['status'] = 'matched';
 
-          const rowObj: Record<string, string> = {};
-          targetData.headers.forEach((header, idx) => {
-            rowObj[header] = row[idx];
-          });
+          if (typeof sourceItem.value === 'number' && typeof targetItem.value === 'number') {
+            difference = sourceItem.value - targetItem.value;
+            totalSourceValue += sourceItem.value;
+            totalTargetValue += targetItem.value;
+            totalDifference += difference;
 
-          const targetValue = evaluateFormulaForRow(
-            reconciliationColumns.targetColumns,
-            rowObj,
-            reconciliationColumns.formula,
-            false
-          );
-
-          if (sourceMap.has(keyValue)) {
-            const sourceItem = sourceMap.get(keyValue);
-            sourceMap.delete(keyValue);
-
-            let difference = null;
-            let status: 'matched' | 'value_mismatch' = 'matched';
-
-            if (typeof sourceItem.value === 'number' && typeof targetValue === 'number') {
-              difference = sourceItem.value - targetValue;
-              totalSourceValue += sourceItem.value;
-              totalTargetValue += targetValue;
-              totalDifference += difference;
-
-              if (Math.abs(difference) < 0.001) {
-                difference = 0;
-                perfectMatches++;
-              } else {
-                status = 'value_mismatch';
-                valueMismatches++;
-              }
-            } else if (sourceItem.value !== targetValue) {
-              status = 'value_mismatch';
-              valueMismatches++;
+            if (Math.abs(difference) < 0.001) {
+              difference = 0;
             } else {
-              perfectMatches++;
+              status = 'value_mismatch';
             }
+          } else if (sourceItem.value !== targetItem.value) {
+            status = 'value_mismatch';
+          }
 
-            matched.push({
-              sourceRow: sourceItem.row,
-              targetRow: rowObj,
-              sourceValue: sourceItem.value,
-              targetValue,
-              difference,
-              key: keyValue,
-              status
-            });
+          if (status === 'value_mismatch') {
+            valueMismatches++;
+          } else if (match.similarity !== undefined) {
+            fuzzyMatches++;
           } else {
-            unmatchedTarget.push({
-              type: 'target',
-              row: rowObj,
-              key: keyValue,
-              reason: `No matching transaction with ID '${keyValue}' found in source data`
-            });
+            perfectMatches++;
           }
-        });
 
-        sourceMap.forEach((value, key) => {
-          unmatchedSource.push({
-            type: 'source',
-            row: value.row,
-            key,
-            reason: `No matching transaction with ID '${key}' found in target data`
+          matched.push({
+            sourceRow: sourceItem.row,
+            targetRow: targetItem.row,
+            sourceValue: sourceItem.value,
+            targetValue: targetItem.value,
+            difference,
+            status,
+            date: sourceItem.date ?? targetItem.date,
+            ...match
+          });
+        };
+
+        // Rows left unmatched; unmatched source values still count towards the source total
+        const addUnmatched = (item: RowItem, type: 'source' | 'target', key: string, reason: string) => {
+          unmatched.push({ type, row: item.row, key, reason, date: item.date });
+          if (type === 'source' && typeof item.value === 'number') {
+            totalSourceValue += item.value;
+          }
+        };
+
+        // Each rule only sees the rows the rules before it left unmatched. Rows no rule could
+        // read keep the reason of the last rule that tried, and rows hidden behind a repeated
+        // source key say so.
+        const remainingSources = new Set(sourceRows.map((_, index) => index));
+        const remainingTargets = new Set(targetRows.map((_, index) => index));
+        const readableSources = new Set<number>();
+        const readableTargets = new Set<number>();
+        const unreadableSources = new Map<number, string>();
+        const unreadableTargets = new Map<number, string>();
+        const duplicateSources = new Map<number, string>();
+        const trackReadable = (
+          indices: number[],
+          unreadable: Map<number, string>,
+          readable: Set<number>,
+          reasons: Map<number, string>
+        ) => {
+          indices.forEach(index => {
+            const reason = unreadable.get(index);
+            if (reason === undefined) {
+              readable.add(index);
+            } else {
+              reasons.set(index, reason);
+            }
+          });
+        };
+        const passes: ReconciliationSummary['passes'] = [];
+        const labelSource = createRowLabeler(matchingRules, sourceData, true);
+        const labelTarget = createRowLabeler(matchingRules, targetData, false);
+
+        for (const rule of matchingRules) {
+          const sourceIndices = [...remainingSources];
+          const targetIndices = [...remainingTargets];
+          const pass = await runMatchingRule(rule, sourceData, targetData, sourceIndices, targetIndices);
+          if (pass.warning) {
+            toast.warning(`Matching rule '${rule.name}' was skipped`, { description: pass.warning });
+          }
+          trackReadable(sourceIndices, pass.unreadableSources, readableSources, unreadableSources);
+          trackReadable(targetIndices, pass.unreadableTargets, readableTargets, unreadableTargets);
+          pass.duplicateSources.forEach((reason, index) => duplicateSources.set(index, reason));
+
+          pass.pairs.forEach(pair => {
+            remainingSources.delete(pair.sourceIndex);
+            remainingTargets.delete(pair.targetIndex);
+            const key = pair.key ?? labelSource(pair.sourceIndex);
+            const targetKey = pair.targetKey ?? (pair.key === undefined ? labelTarget(pair.targetIndex) : undefined);
+
+            addMatch(sourceRows[pair.sourceIndex], targetRows[pair.targetIndex], {
+              key,
+              targetKey,
+              rule: rule.name,
+              ...(rule.type === 'fuzzy-key' ? { similarity: pair.similarity } : {})
+            });
           });
+          passes.push({ rule: rule.name, matched: pass.pairs.length });
+        }
 
-          if (typeof value.value === 'number') {
-            totalSourceValue += value.value;
+        remainingSources.forEach(index => {
+          const key = labelSource(index);
+          const duplicate = duplicateSources.get(index);
+          if (duplicate !== undefined) {
+            addUnmatched(sourceRows[index], 'source', key, duplicate);
+          } else if (readableSources.has(index)) {
+            addUnmatched(sourceRows[index], 'source', key, `No matching transaction for '${key}' found in target data`);
+          } else {
+            unreadableTransactions++;
+            addUnmatched(sourceRows[index], 'source', key, unreadableSources.get(index) ?? 'No matching rule could read this row');
+          }
+        });
+        remainingTargets.forEach(index => {
+          const key = labelTarget(index);
+          if (readableTargets.has(index)) {
+            addUnmatched(targetRows[index], 'target', key, `No matching transaction for '${key}' found in source data`);
+          } else {
+            unreadableTransactions++;
+            addUnmatched(targetRows[index], 'target', key, unreadableTargets.get(index) ?? 'No matching rule could read this row');
           }
         });
 
-        const unmatched = [...unmatchedSource, ...unmatchedTarget];
         const totalTransactions = matched.length + unmatched.length;
         const matchedTransactions = matched.length;
         const unmatchedTransactions = unmatched.length;
@@ -163,7 +245,10 @@ const ReconciliationInterface = ({
             totalTargetValue,
             totalDifference,
             perfectMatches,
-            valueMismatches
+            valueMismatches,
+            fuzzyMatches,
+            unreadableTransactions,
+            passes
           }
         });
 
@@ -177,6 +262,60 @@ const ReconciliationInterface = ({
     }, 1500);
   };
 
+  // Accepting keeps a fuzzy pair; rejecting splits it back into two unmatched transactions
+  const handleFuzzyReview = (transaction: MatchedTransaction, decision: 'accept' | 'reject') => {
+    setResult(current => {
+      if (!current) return current;
+      if (decision === 'accept') {
+        return {
+          ...current,
+          matched: current.matched.map(item => (item === transaction ? { ...item, review: 'accepted' } : item))
+        };
+      }
+
+      const matched = current.matched.filter(item => item !== transaction);
+      const reason = `Fuzzy match between '${transaction.key}' and '${transaction.targetKey}' was rejected`;
+      const unmatched = [
+        ...current.unmatched,
+        {
+          type: 'source' as const,
+          row: transaction.sourceRow,
+          key: transaction.key,
+          reason,
+          date: readDate(transaction.sourceRow, sourceDateColumn)
+        },
+        {
+          type: 'target' as const,
+          row: transaction.targetRow,
+          key: transaction.targetKey ?? transaction.key,
+          reason,
+          date: readDate(transaction.targetRow, targetDateColumn)
+        }
+      ];
+
+      // Unmatched source values stay in the source total, unmatched target values don't count
+      const summary = { ...current.summary };
+      if (typeof transaction.sourceValue === 'number' && typeof transaction.targetValue === 'number') {
+        summary.totalTargetValue -= transaction.targetValue;
+        summary.totalDifference -= transaction.difference ?? 0;
+      }
+      if (transaction.status === 'value_mismatch') {
+        summary.valueMismatches--;
+      } else {
+        summary.fuzzyMatches--;
+      }
+      summary.passes = summary.passes.map(pass =>
+        pass.rule === transaction.rule ? { ...pass, matched: pass.matched - 1 } : pass
+      );
+      summary.matchedTransactions = matched.length;
+      summary.unmatchedTransactions = unmatched.length;
+      summary.totalTransactions = matched.length + unmatched.length;
+      summary.matchPercentage = Math.round((matched.length / summary.totalTransactions) * 100);
+
+      return { matched, unmatched, summary };
+    });
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -190,18 +329,32 @@ const ReconciliationInterface = ({
 
       <Card className="bg-muted/30">
         <div className="pt-6 px-6">
+          {/* Which account and period were reconciled, as read from the files */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            {[{ label: 'Source', data: sourceData }, { label: 'Target', data: targetData }].map(({ label, data }) => (
+              <div key={label}>
+                <h3 className="text-lg font-medium mb-2">{label} Dataset</h3>
+                <div className="rounded-md bg-white p-3 shadow-sm space-y-2">
+                  <div className="text-sm font-medium">{data.fileName}</div>
+                  <DatasetMetadata metadata={data.metadata} emptyText="No statement details found in this file" />
+                </div>
+              </div>
+            ))}
+          </div>
+          
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
-              <h3 className="text-lg font-medium mb-2">Unique Key Mapping</h3>
+              <h3 className="text-lg font-medium mb-2">Matching Rules</h3>
               <div className="rounded-md bg-white p-3 shadow-sm">
-                <div className="grid grid-cols-2 gap-2 text-sm">
-                  <span className="text-muted-foreground">Source Key:</span>
-                  <span className="font-medium">{uniqueKeyMapping.sourceKey}</span>
-                  <span className="text-muted-foreground">Target Key:</span>
-                  <span className="font-medium">{uniqueKeyMapping.targetKey}</span>
-                  <span className="text-muted-foreground">Confidence:</span>
-                  <span className="font-medium">{uniqueKeyMapping.confidence}%</span>
-                </div>
+                <ol className="space-y-2 text-sm">
+                  {matchingRules.map((rule, index) => (
+                    <li key={rule.id}>
+                      <span className="font-medium">{index + 1}. {rule.name}</span>{' '}
+                      <span className="text-muted-foreground">({MATCHING_RULE_TYPES[rule.type]})</span>
+                      <div className="text-muted-foreground">{describeMatchingRule(rule)}</div>
+                    </li>
+                  ))}
+                </ol>
               </div>
             </div>
 
@@ -246,7 +399,11 @@ const ReconciliationInterface = ({
           <div className="mt-6">
             <TabsContent value="summary" className="space-y-6">
               <h3 className="text-xl font-semibold">Reconciliation Summary</h3>
-              <SummaryStats summary={result.summary} />
+              <SummaryStats
+                summary={result.summary}
+                sourceNumberFormat={sourceData.numberFormat}
+                targetNumberFormat={targetData.numberFormat}
+              />
               <div className="my-6 border-t" />
               <SummaryCharts summary={result.summary} />
               <div className="pt-4">
@@ -263,7 +420,7 @@ const ReconciliationInterface = ({
               <h3 className="text-xl font-semibold">Matched Transactions</h3>
               <Card>
                 <div className="p-3">
-                  <MatchedTransactionsTable transactions={result.matched} />
+                  <MatchedTransactionsTable transactions={result.matched} onFuzzyReview={handleFuzzyReview} />
                 </div>
               </Card>
             </TabsContent>
@@ -0,0 +1,126 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { type AmountDateCriteria, type ReconciliationData } from '@/types/reconciliation';
+import { COLUMN_TYPE_LABELS, getColumnType } from '@/utils/profileUtils';
+import { describeAmountDateCriteria } from '@/utils/amountDateUtils';
+
+// Select items can't have an empty value, so "no column" gets its own
+const NO_COLUMN = '__none__';
+
+interface ColumnSelectProps {
+  id: string;
+  label: string;
+  data: ReconciliationData;
+  value: string;
+  optional?: boolean;
+  onChange: (column: string) => void;
+}
+
+const ColumnSelect = ({ id, label, data, value, optional, onChange }: ColumnSelectProps) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs">{label}</Label>
+    <Select
+      value={value || (optional ? NO_COLUMN : undefined)}
+      onValueChange={(column) => onChange(column === NO_COLUMN ? '' : column)}
+    >
+      <SelectTrigger id={id} className="h-8 text-xs">
+        <SelectValue placeholder="Select a column" />
+      </SelectTrigger>
+      <SelectContent>
+        {optional && <SelectItem value={NO_COLUMN} className="text-xs">None</SelectItem>}
+        {data.headers.map(header => {
+          const type = getColumnType(data.columnProfiles, header);
+          return (
+            <SelectItem key={header} value={header} className="text-xs">
+              {header}
+              {type && <span className="ml-2 text-muted-foreground">{COLUMN_TYPE_LABELS[type]}</span>}
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+interface AmountDateCriteriaEditorProps {
+  sourceData: ReconciliationData;
+  targetData: ReconciliationData;
+  criteria: AmountDateCriteria;
+  onChange: (criteria: AmountDateCriteria) => void;
+}
+
+// Columns and tolerances for pairing rows without a key
+export const AmountDateCriteriaEditor = ({ sourceData, targetData, criteria, onChange }: AmountDateCriteriaEditorProps) => {
+  const update = (changes: Partial<AmountDateCriteria>) => onChange({ ...criteria, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {[
+          { side: 'source' as const, label: 'Source', data: sourceData },
+          { side: 'target' as const, label: 'Target', data: targetData }
+        ].map(({ side, label, data }) => (
+          <div key={side} className="space-y-3">
+            <h3 className="text-lg font-medium">{label} Columns</h3>
+            <ColumnSelect
+              id={`${side}AmountColumn`}
+              label="Amount"
+              data={data}
+              value={criteria[`${side}AmountColumn`]}
+              onChange={(column) => update({ [`${side}AmountColumn`]: column })}
+            />
+            <ColumnSelect
+              id={`${side}DateColumn`}
+              label="Date (optional, none compares amounts only)"
+              data={data}
+              value={criteria[`${side}DateColumn`] ?? ''}
+              optional
+              onChange={(column) => update({ [`${side}DateColumn`]: column || undefined })}
+            />
+            <ColumnSelect
+              id={`${side}AttributeColumn`}
+              label="Must also match (optional), e.g. currency or counterparty"
+              data={data}
+              value={criteria[`${side}AttributeColumn`] ?? ''}
+              optional
+              onChange={(column) => update({ [`${side}AttributeColumn`]: column || undefined })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-1">
+          <Label htmlFor="amountTolerance" className="text-xs">Amount tolerance</Label>
+          <Input
+            id="amountTolerance"
+            type="number"
+            min={0}
+            step="0.01"
+            value={criteria.amountTolerance}
+            onChange={(e) => update({ amountTolerance: Math.max(0, Number(e.target.value) || 0) })}
+            className="h-8 text-xs"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="dateWindowDays" className="text-xs">Date window (± days)</Label>
+          <Input
+            id="dateWindowDays"
+            type="number"
+            min={0}
+            value={criteria.dateWindowDays}
+            disabled={!criteria.sourceDateColumn || !criteria.targetDateColumn}
+            onChange={(e) => update({ dateWindowDays: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+            className="h-8 text-xs"
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Rule: <span className="font-medium text-foreground">{describeAmountDateCriteria(criteria)}</span>.
+        When a row fits several rows of the other side, the nearest date wins.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { type FuzzyAlgorithm, type FuzzyMatchOptions } from '@/types/reconciliation';
+import { FUZZY_ALGORITHMS } from '@/utils/fuzzyUtils';
+
+interface FuzzyMatchSettingsProps {
+  idPrefix: string;
+  options: FuzzyMatchOptions;
+  onChange: (options: FuzzyMatchOptions) => void;
+}
+
+export const FuzzyMatchSettings = ({ idPrefix, options, onChange }: FuzzyMatchSettingsProps) => {
+  const update = (changes: Partial<FuzzyMatchOptions>) => onChange({ ...options, ...changes });
+  const usesSimilarity = options.algorithm === 'jaro-winkler';
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}FuzzyAlgorithm`} className="text-xs">Algorithm</Label>
+        <Select value={options.algorithm} onValueChange={(value) => update({ algorithm: value as FuzzyAlgorithm })}>
+          <SelectTrigger id={`${idPrefix}FuzzyAlgorithm`} className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FUZZY_ALGORITHMS.map(({ value, label }) => (
+              <SelectItem key={value} value={value} className="text-xs">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {usesSimilarity ? (
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}FuzzyMinSimilarity`} className="text-xs">Minimum similarity (%)</Label>
+          <Input
+            id={`${idPrefix}FuzzyMinSimilarity`}
+            type="number"
+            min={50}
+            max={100}
+            value={options.minSimilarity}
+            onChange={(e) => update({ minSimilarity: Math.min(100, Math.max(50, Number(e.target.value) || 0)) })}
+            className="h-8 text-xs"
+          />
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}FuzzyMaxDistance`} className="text-xs">Maximum edits</Label>
+          <Input
+            id={`${idPrefix}FuzzyMaxDistance`}
+            type="number"
+            min={1}
+            max={5}
+            value={options.maxDistance}
+            onChange={(e) => update({ maxDistance: Math.min(5, Math.max(1, Math.round(Number(e.target.value) || 1))) })}
+            className="h-8 text-xs"
+          />
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}FuzzyAssignment`} className="text-xs">Pairing</Label>
+        <Select
+          value={options.assignment}
+          onValueChange={(value) => update({ assignment: value as FuzzyMatchOptions['assignment'] })}
+        >
+          <SelectTrigger id={`${idPrefix}FuzzyAssignment`} className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="greedy" className="text-xs">Most similar first</SelectItem>
+            <SelectItem value="optimal" className="text-xs">Best overall</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
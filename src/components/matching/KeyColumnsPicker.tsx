@@ -0,0 +1,84 @@
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface KeyColumnsPickerProps {
+  id: string;
+  label: string;
+  headers: string[];
+  keyColumns: string[];
+  onChange: (keyColumns: string[]) => void;
+}
+
+// Pick one or more key columns in order; the values are joined in this order, so it has to
+// line up with the key columns of the other side
+export const KeyColumnsPicker = ({ id, label, headers, keyColumns, onChange }: KeyColumnsPickerProps) => {
+  const available = headers.filter(header => !keyColumns.includes(header));
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...keyColumns];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      {keyColumns.length > 0 && (
+        <ol className="space-y-1">
+          {keyColumns.map((column, index) => (
+            <li key={column} className="flex items-center gap-2 rounded border px-2 py-1 text-sm">
+              <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+              <span className="flex-1 font-medium truncate">{column}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                aria-label={`Move ${column} up`}
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                aria-label={`Move ${column} down`}
+                disabled={index === keyColumns.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                aria-label={`Remove ${column}`}
+                onClick={() => onChange(keyColumns.filter(other => other !== column))}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <Select value="" onValueChange={(column) => onChange([...keyColumns, column])}>
+        <SelectTrigger id={id} disabled={available.length === 0}>
+          <SelectValue placeholder={keyColumns.length > 0 ? 'Add another key column' : 'Select a column'} />
+        </SelectTrigger>
+        <SelectContent>
+          {available.map((header) => (
+            <SelectItem key={header} value={header}>
+              {header}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { compilePattern, NORMALIZATION_STEPS, STEP_VALUE_PLACEHOLDERS } from '@/utils/normalizationUtils';
+import { type KeyNormalizationStep, type KeyNormalizationType } from '@/types/reconciliation';
+
+interface KeyNormalizationEditorProps {
+  id: string;
+  label: string;
+  steps: KeyNormalizationStep[];
+  onChange: (steps: KeyNormalizationStep[]) => void;
+}
+
+export const KeyNormalizationEditor = ({ id, label, steps, onChange }: KeyNormalizationEditorProps) => {
+  const updateStep = (index: number, value: string) => {
+    onChange(steps.map((step, stepIndex) => (stepIndex === index ? { ...step, value } : step)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      {steps.length > 0 && (
+        <ol className="space-y-1">
+          {steps.map((step, index) => {
+            const placeholder = STEP_VALUE_PLACEHOLDERS[step.type];
+            const invalidPattern = step.type === 'regex' && !!step.value && !compilePattern(step.value);
+
+            return (
+              <li key={index} className="flex items-center gap-2 text-sm">
+                <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+                <span className="whitespace-nowrap">
+                  {NORMALIZATION_STEPS.find(option => option.value === step.type)?.label}
+                </span>
+                {placeholder !== undefined && (
+                  <Input
+                    value={step.value ?? ''}
+                    onChange={(e) => updateStep(index, e.target.value)}
+                    placeholder={placeholder}
+                    aria-label={`${label} step ${index + 1}`}
+                    title={invalidPattern ? 'Invalid pattern, the step is skipped' : undefined}
+                    className={`h-7 font-mono text-xs ${invalidPattern ? 'border-red-500' : ''}`}
+                  />
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto h-6 w-6 p-0"
+                  aria-label={`Remove step ${index + 1}`}
+                  onClick={() => onChange(steps.filter((_, stepIndex) => stepIndex !== index))}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      <Select value="" onValueChange={(type) => onChange([...steps, { type: type as KeyNormalizationType }])}>
+        <SelectTrigger id={id} className="h-8 text-sm">
+          <Plus className="h-3 w-3 mr-1" />
+          <SelectValue placeholder="Add a step" />
+        </SelectTrigger>
+        <SelectContent>
+          {NORMALIZATION_STEPS.map(({ value, label: stepLabel }) => (
+            <SelectItem key={value} value={value}>
+              {stepLabel}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import { useMemo } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { collectKeys, countKeyOverlap, formatKeyColumns, getKeyIndices } from '@/utils/keyUtils';
+import { createKeyNormalizer, sampleNormalizedKeys } from '@/utils/normalizationUtils';
+import { type KeyNormalizationStep, type ReconciliationData } from '@/types/reconciliation';
+import { KeyNormalizationEditor } from './KeyNormalizationEditor';
+
+interface KeyNormalizationPanelProps {
+  sourceData: ReconciliationData;
+  targetData: ReconciliationData;
+  // Key columns to preview with, once they are known
+  keyColumns: { sourceKeys: string[]; targetKeys: string[] } | null;
+  sourceSteps: KeyNormalizationStep[];
+  targetSteps: KeyNormalizationStep[];
+  onSourceStepsChange: (steps: KeyNormalizationStep[]) => void;
+  onTargetStepsChange: (steps: KeyNormalizationStep[]) => void;
+}
+
+export const KeyNormalizationPanel = ({
+  sourceData,
+  targetData,
+  keyColumns,
+  sourceSteps,
+  targetSteps,
+  onSourceStepsChange,
+  onTargetStepsChange
+}: KeyNormalizationPanelProps) => {
+  const preview = useMemo(() => {
+    if (!keyColumns) return null;
+    const sourceIndices = getKeyIndices(sourceData.headers, keyColumns.sourceKeys);
+    const targetIndices = getKeyIndices(targetData.headers, keyColumns.targetKeys);
+    if (!sourceIndices || !targetIndices) return null;
+
+    const normalizeSource = createKeyNormalizer(sourceSteps);
+    const normalizeTarget = createKeyNormalizer(targetSteps);
+    const overlapBefore = countKeyOverlap(
+      collectKeys(sourceData.data, sourceIndices),
+      collectKeys(targetData.data, targetIndices)
+    );
+    const overlapAfter = countKeyOverlap(
+      collectKeys(sourceData.data, sourceIndices, normalizeSource),
+      collectKeys(targetData.data, targetIndices, normalizeTarget)
+    );
+
+    return {
+      overlapBefore,
+      overlapAfter,
+      sourceSamples: sampleNormalizedKeys(sourceData.data, sourceIndices, normalizeSource),
+      targetSamples: sampleNormalizedKeys(targetData.data, targetIndices, normalizeTarget)
+    };
+  }, [sourceData, targetData, keyColumns, sourceSteps, targetSteps]);
+
+  const renderSamples = (title: string, samples: Array<{ before: string; after: string }>) => (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">{title}</div>
+      {samples.map(({ before, after }) => (
+        <div key={before} className="flex items-center gap-2 font-mono text-xs">
+          <span className="truncate">{before}</span>
+          <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+          <span className={`truncate ${after !== before ? 'text-green-700' : ''}`}>{after}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-medium">Key Normalization</h3>
+        <p className="text-sm text-muted-foreground">
+          Clean up key values before they are compared, e.g. remove the prefix "INV-" and strip leading
+          zeros so "INV-000123" matches "123". Steps run in order.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <KeyNormalizationEditor
+          id="sourceNormalization"
+          label="Source Key Steps"
+          steps={sourceSteps}
+          onChange={onSourceStepsChange}
+        />
+        <KeyNormalizationEditor
+          id="targetNormalization"
+          label="Target Key Steps"
+          steps={targetSteps}
+          onChange={onTargetStepsChange}
+        />
+      </div>
+      {preview ? (
+        <div className="bg-muted rounded-md p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>
+              {formatKeyColumns(keyColumns!.sourceKeys)} <ArrowRight className="inline h-3 w-3" />{' '}
+              {formatKeyColumns(keyColumns!.targetKeys)}:
+            </span>
+            <span className="font-medium">{preview.overlapAfter.toLocaleString()} overlapping keys</span>
+            {preview.overlapAfter !== preview.overlapBefore && (
+              <Badge className={preview.overlapAfter > preview.overlapBefore ? 'bg-green-500' : 'bg-red-500'}>
+                {preview.overlapAfter > preview.overlapBefore ? '+' : ''}
+                {(preview.overlapAfter - preview.overlapBefore).toLocaleString()} from normalization
+              </Badge>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderSamples('Source', preview.sourceSamples)}
+            {renderSamples('Target', preview.targetSamples)}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Identify or pick the key columns to preview the steps on your data.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { type MatchingRule, type ReconciliationData, type ReconciliationKeyMapping } from '@/types/reconciliation';
+import {
+  createMatchingRule,
+  describeMatchingRule,
+  MATCHING_RULE_PRESETS,
+  MATCHING_RULE_TYPES,
+  type MatchingRulePreset
+} from '@/utils/matchingRuleUtils';
+import { KeyColumnsPicker } from './KeyColumnsPicker';
+import { KeyNormalizationPanel } from './KeyNormalizationPanel';
+import { FuzzyMatchSettings } from './FuzzyMatchSettings';
+import { AmountDateCriteriaEditor } from './AmountDateCriteriaEditor';
+
+interface MatchingRulesEditorProps {
+  sourceData: ReconciliationData;
+  targetData: ReconciliationData;
+  rules: MatchingRule[];
+  onChange: (rules: MatchingRule[]) => void;
+}
+
+// Build the ordered list of matching rules; one rule is open for editing at a time
+export const MatchingRulesEditor = ({ sourceData, targetData, rules, onChange }: MatchingRulesEditorProps) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updateRule = (updated: MatchingRule) => {
+    onChange(rules.map(rule => (rule.id === updated.id ? updated : rule)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...rules];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered);
+  };
+
+  const addRule = (preset: MatchingRulePreset) => {
+    const rule = createMatchingRule(preset, rules, sourceData, targetData);
+    onChange([...rules, rule]);
+    setExpandedId(rule.id);
+  };
+
+  const renderSettings = (rule: MatchingRule) => {
+    if (rule.type === 'amount-date') {
+      return (
+        <AmountDateCriteriaEditor
+          sourceData={sourceData}
+          targetData={targetData}
+          criteria={rule.amountDate}
+          onChange={(amountDate) => updateRule({ ...rule, amountDate })}
+        />
+      );
+    }
+
+    const { keyMapping } = rule;
+    const updateKeyMapping = (changes: Partial<ReconciliationKeyMapping>) => {
+      updateRule({ ...rule, keyMapping: { ...keyMapping, ...changes } });
+    };
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <KeyColumnsPicker
+            id={`${rule.id}SourceKey`}
+            label="Source Key"
+            headers={sourceData.headers}
+            keyColumns={keyMapping.sourceKeys}
+            onChange={(sourceKeys) => updateKeyMapping({ sourceKeys })}
+          />
+          <KeyColumnsPicker
+            id={`${rule.id}TargetKey`}
+            label="Target Key"
+            headers={targetData.headers}
+            keyColumns={keyMapping.targetKeys}
+            onChange={(targetKeys) => updateKeyMapping({ targetKeys })}
+          />
+        </div>
+        {rule.type === 'fuzzy-key' && (
+          <FuzzyMatchSettings
+            idPrefix={rule.id}
+            options={rule.fuzzy}
+            onChange={(fuzzy) => updateRule({ ...rule, fuzzy })}
+          />
+        )}
+        <KeyNormalizationPanel
+          sourceData={sourceData}
+          targetData={targetData}
+          keyColumns={keyMapping.sourceKeys.length > 0 && keyMapping.targetKeys.length > 0 ? keyMapping : null}
+          sourceSteps={keyMapping.sourceNormalization ?? []}
+          targetSteps={keyMapping.targetNormalization ?? []}
+          onSourceStepsChange={(sourceNormalization) => updateKeyMapping({ sourceNormalization })}
+          onTargetStepsChange={(targetNormalization) => updateKeyMapping({ targetNormalization })}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Rules run from top to bottom, and each rule only sees the transactions the rules above it left
+        unmatched. Put the strictest rules first, e.g. exact reference, then normalized reference, then
+        amount and date.
+      </p>
+
+      <ol className="space-y-2">
+        {rules.map((rule, index) => {
+          const isExpanded = expandedId === rule.id;
+          return (
+            <li key={rule.id} className="rounded-lg border">
+              <div className="flex items-center gap-2 p-3">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  aria-label={isExpanded ? `Close ${rule.name}` : `Edit ${rule.name}`}
+                  onClick={() => setExpandedId(isExpanded ? null : rule.id)}
+                >
+                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </Button>
+                <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+                <Input
+                  value={rule.name}
+                  onChange={(e) => updateRule({ ...rule, name: e.target.value })}
+                  aria-label={`Name of rule ${index + 1}`}
+                  className="h-8 w-44"
+                />
+                <Badge variant="outline" className="whitespace-nowrap">{MATCHING_RULE_TYPES[rule.type]}</Badge>
+                <span className="flex-1 truncate text-sm text-muted-foreground">{describeMatchingRule(rule)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  aria-label={`Move ${rule.name} up`}
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  aria-label={`Move ${rule.name} down`}
+                  disabled={index === rules.length - 1}
+                  onClick={() => move(index, 1)}
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  aria-label={`Remove ${rule.name}`}
+                  onClick={() => onChange(rules.filter(other => other.id !== rule.id))}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+              {isExpanded && <div className="border-t p-4">{renderSettings(rule)}</div>}
+            </li>
+          );
+        })}
+      </ol>
+
+      <Select value="" onValueChange={(preset) => addRule(preset as MatchingRulePreset)}>
+        <SelectTrigger id="addMatchingRule" className="w-64">
+          <SelectValue placeholder="Add a matching rule" />
+        </SelectTrigger>
+        <SelectContent>
+          {MATCHING_RULE_PRESETS.map(({ value, label }) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
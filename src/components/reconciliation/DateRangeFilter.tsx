@@ -0,0 +1,42 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+
+interface DateRangeFilterProps {
+  idPrefix: string;
+  from: string;
+  to: string;
+  onChange: (from: string, to: string) => void;
+}
+
+export const DateRangeFilter = ({ idPrefix, from, to, onChange }: DateRangeFilterProps) => {
+  return (
+    <div className="flex flex-wrap items-end gap-3 mb-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}DateFrom`} className="text-xs">From</Label>
+        <Input
+          id={`${idPrefix}DateFrom`}
+          type="date"
+          value={from}
+          onChange={(e) => onChange(e.target.value, to)}
+          className="h-8 w-40"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}DateTo`} className="text-xs">To</Label>
+        <Input
+          id={`${idPrefix}DateTo`}
+          type="date"
+          value={to}
+          onChange={(e) => onChange(from, e.target.value)}
+          className="h-8 w-40"
+        />
+      </div>
+      {(from || to) && (
+        <Button variant="ghost" size="sm" onClick={() => onChange('', '')}>
+          Clear dates
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,33 @@
 
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Check, X } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { type MatchedTransaction } from '@/types/reconciliation';
+import { filterByDateRange, sortByDate } from '@/utils/dateFormatUtils';
+import { PROVENANCE_COLUMN } from '@/utils/mergeUtils';
+import { DateRangeFilter } from './DateRangeFilter';
 
 interface MatchedTransactionsTableProps {
   transactions: MatchedTransaction[];
+  onFuzzyReview: (transaction: MatchedTransaction, decision: 'accept' | 'reject') => void;
 }
 
-export const MatchedTransactionsTable = ({ transactions }: MatchedTransactionsTableProps) => {
+export const MatchedTransactionsTable = ({ transactions, onFuzzyReview }: MatchedTransactionsTableProps) => {
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [dateSort, setDateSort] = useState<'asc' | 'desc' | null>(null);
+
+  const hasDates = transactions.some(item => item.date);
+  const visible = useMemo(() => {
+    const filtered = filterByDateRange(transactions, dateFrom, dateTo);
+    return dateSort ? sortByDate(filtered, dateSort) : filtered;
+  }, [transactions, dateFrom, dateTo, dateSort]);
+
+  const toggleDateSort = () => setDateSort(current => (current === 'asc' ? 'desc' : 'asc'));
+  const DateSortIcon = dateSort === 'asc' ? ArrowUp : dateSort === 'desc' ? ArrowDown : ArrowUpDown;
+
   if (!transactions.length) {
     return <p className="text-center py-4">No matched transactions found</p>;
   }
@@ -16,27 +36,61 @@ export const MatchedTransactionsTable = ({ transactions }: MatchedTransactionsTa
 
   return (
     <div className="overflow-x-auto">
+      {hasDates && (
+        <DateRangeFilter
+          idPrefix="matched"
+          from={dateFrom}
+          to={dateTo}
+          onChange={(from, to) => {
+            setDateFrom(from);
+            setDateTo(to);
+          }}
+        />
+      )}
       <Table>
         <TableHeader>
           <TableRow className="bg-muted/50">
             <TableHead>Transaction ID</TableHead>
+            {hasDates && (
+              <TableHead>
+                <button type="button" className="inline-flex items-center gap-1" onClick={toggleDateSort}>
+                  Date <DateSortIcon className="h-3 w-3" />
+                </button>
+              </TableHead>
+            )}
             <TableHead>Source Value</TableHead>
             <TableHead>Target Value</TableHead>
             {hasDifferences && <TableHead>Difference</TableHead>}
             <TableHead>Status</TableHead>
+            <TableHead>Rule</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
-          {transactions.map((item, idx) => (
+          {visible.map((item, idx) => (
             <TableRow
               key={idx}
               className={
                 item.status === 'value_mismatch'
                   ? 'bg-amber-50 hover:bg-amber-100/80'
-                  : 'hover:bg-muted/50'
+                  : item.similarity !== undefined && !item.review
+                    ? 'bg-blue-50 hover:bg-blue-100/80'
+                    : 'hover:bg-muted/50'
               }
             >
-              <TableCell className="font-medium">{item.key}</TableCell>
+              <TableCell className="font-medium">
+                {item.key}
+                {item.targetKey && item.targetKey !== item.key && (
+                  <div className="text-xs font-normal text-muted-foreground whitespace-nowrap">
+                    Target: {item.targetKey}
+                  </div>
+                )}
+                {(item.sourceRow[PROVENANCE_COLUMN] || item.targetRow[PROVENANCE_COLUMN]) && (
+                  <div className="text-xs font-normal text-muted-foreground whitespace-nowrap">
+                    {item.sourceRow[PROVENANCE_COLUMN]} ↔ {item.targetRow[PROVENANCE_COLUMN]}
+                  </div>
+                )}
+              </TableCell>
+              {hasDates && <TableCell className="whitespace-nowrap">{item.date ?? ''}</TableCell>}
               <TableCell>
                 {typeof item.sourceValue === 'number'
                   ? item.sourceValue.toFixed(2)
@@ -57,7 +111,49 @@ export const MatchedTransactionsTable = ({ transactions }: MatchedTransactionsTa
                 </TableCell>
               )}
               <TableCell>
-                {item.status === 'value_mismatch' ? (
+                {item.similarity !== undefined ? (
+                  <div className="flex items-center gap-1 whitespace-nowrap">
+                    {item.status === 'value_mismatch' && (
+                      <Badge
+                        variant="outline"
+                        className="bg-amber-50 text-amber-700 border-amber-200"
+                      >
+                        Value mismatch
+                      </Badge>
+                    )}
+                    <Badge
+                      variant="outline"
+                      className="bg-blue-50 text-blue-700 border-blue-200"
+                      title="Similarity of the source and target keys"
+                    >
+                      Fuzzy match {item.similarity}%
+                    </Badge>
+                    {item.review === 'accepted' ? (
+                      <span className="text-xs text-green-700">Accepted</span>
+                    ) : (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-green-700"
+                          aria-label={`Accept fuzzy match ${item.key}`}
+                          onClick={() => onFuzzyReview(item, 'accept')}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-red-600"
+                          aria-label={`Reject fuzzy match ${item.key}`}
+                          onClick={() => onFuzzyReview(item, 'reject')}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ) : item.status === 'value_mismatch' ? (
                   <Badge
                     variant="outline"
                     className="bg-amber-50 text-amber-700 border-amber-200"
@@ -73,8 +169,16 @@ export const MatchedTransactionsTable = ({ transactions }: MatchedTransactionsTa
                   </Badge>
                 )}
               </TableCell>
+              <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{item.rule}</TableCell>
             </TableRow>
           ))}
+          {visible.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={hasDifferences ? 7 : 6} className="text-center text-muted-foreground">
+                No transactions in this date range
+              </TableCell>
+            </TableRow>
+          )}
         </TableBody>
       </Table>
     </div>
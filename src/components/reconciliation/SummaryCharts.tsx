@@ -14,6 +14,7 @@ export const SummaryCharts = ({ summary }: SummaryChartsProps) => {
     { name: 'Perfect Match', value: summary.perfectMatches },
     { name: 'Value Mismatch', value: summary.valueMismatches },
     { name: 'Unmatched', value: summary.unmatchedTransactions },
+    { name: 'Fuzzy Match', value: summary.fuzzyMatches },
   ];
 
   const valueData = [
@@ -1,12 +1,15 @@
 
 import { Card, CardContent } from '@/components/ui/card';
+import { formatNumber, type NumberFormat } from '@/utils/numberFormatUtils';
 import { type ReconciliationSummary } from '@/types/reconciliation';
 
 interface SummaryStatsProps {
   summary: ReconciliationSummary;
+  sourceNumberFormat?: NumberFormat;
+  targetNumberFormat?: NumberFormat;
 }
 
-export const SummaryStats = ({ summary }: SummaryStatsProps) => {
+export const SummaryStats = ({ summary, sourceNumberFormat, targetNumberFormat }: SummaryStatsProps) => {
   return (
     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
       <Card className="overflow-hidden">
@@ -33,27 +36,58 @@ export const SummaryStats = ({ summary }: SummaryStatsProps) => {
         </CardContent>
       </Card>
 
+      {summary.fuzzyMatches > 0 && (
+        <Card className="overflow-hidden">
+          <CardContent className="p-4 relative">
+            <div className="text-2xl font-bold text-blue-600">{summary.fuzzyMatches}</div>
+            <p className="text-xs text-muted-foreground">Fuzzy Matches</p>
+            <div className="absolute inset-0 bg-blue-500/5 pointer-events-none" />
+          </CardContent>
+        </Card>
+      )}
+
       <Card className="overflow-hidden">
         <CardContent className="p-4 relative">
           <div className="text-2xl font-bold text-red-600">{summary.unmatchedTransactions}</div>
           <p className="text-xs text-muted-foreground">Unmatched Transactions</p>
+          {summary.unreadableTransactions > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {summary.unreadableTransactions} could not be read by any rule
+            </p>
+          )}
           <div className="absolute inset-0 bg-red-500/5 pointer-events-none" />
         </CardContent>
       </Card>
 
       <Card className="col-span-2">
         <CardContent className="p-4">
-          <div className="text-xl font-bold">{summary.totalSourceValue.toFixed(2)}</div>
+          <div className="text-xl font-bold">{formatNumber(summary.totalSourceValue, sourceNumberFormat)}</div>
           <p className="text-xs text-muted-foreground">Total Source Value</p>
         </CardContent>
       </Card>
 
       <Card className="col-span-2">
         <CardContent className="p-4">
-          <div className="text-xl font-bold">{summary.totalTargetValue.toFixed(2)}</div>
+          <div className="text-xl font-bold">{formatNumber(summary.totalTargetValue, targetNumberFormat)}</div>
           <p className="text-xs text-muted-foreground">Total Target Value</p>
         </CardContent>
       </Card>
+
+      {summary.passes.length > 0 && (
+        <Card className="col-span-2 md:col-span-4">
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground mb-2">Matches by Rule</p>
+            <ol className="space-y-1 text-sm">
+              {summary.passes.map((pass, index) => (
+                <li key={pass.rule} className="flex justify-between gap-4">
+                  <span>{index + 1}. {pass.rule}</span>
+                  <span className="font-medium">{pass.matched}</span>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -1,29 +1,65 @@
 
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { type UnmatchedTransaction } from '@/types/reconciliation';
+import { filterByDateRange, sortByDate } from '@/utils/dateFormatUtils';
+import { PROVENANCE_COLUMN } from '@/utils/mergeUtils';
+import { DateRangeFilter } from './DateRangeFilter';
 
 interface UnmatchedTransactionsTableProps {
   transactions: UnmatchedTransaction[];
 }
 
 export const UnmatchedTransactionsTable = ({ transactions }: UnmatchedTransactionsTableProps) => {
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [dateSort, setDateSort] = useState<'asc' | 'desc' | null>(null);
+
+  const hasDates = transactions.some(item => item.date);
+  const visible = useMemo(() => {
+    const filtered = filterByDateRange(transactions, dateFrom, dateTo);
+    return dateSort ? sortByDate(filtered, dateSort) : filtered;
+  }, [transactions, dateFrom, dateTo, dateSort]);
+
+  const toggleDateSort = () => setDateSort(current => (current === 'asc' ? 'desc' : 'asc'));
+  const DateSortIcon = dateSort === 'asc' ? ArrowUp : dateSort === 'desc' ? ArrowDown : ArrowUpDown;
+
   if (!transactions.length) {
     return <p className="text-center py-4">No unmatched transactions found</p>;
   }
 
   return (
     <div className="overflow-x-auto">
+      {hasDates && (
+        <DateRangeFilter
+          idPrefix="unmatched"
+          from={dateFrom}
+          to={dateTo}
+          onChange={(from, to) => {
+            setDateFrom(from);
+            setDateTo(to);
+          }}
+        />
+      )}
       <Table>
         <TableHeader>
           <TableRow className="bg-muted/50">
             <TableHead>Source/Target</TableHead>
             <TableHead>Transaction ID</TableHead>
+            {hasDates && (
+              <TableHead>
+                <button type="button" className="inline-flex items-center gap-1" onClick={toggleDateSort}>
+                  Date <DateSortIcon className="h-3 w-3" />
+                </button>
+              </TableHead>
+            )}
             <TableHead>Reason</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
-          {transactions.map((item, idx) => (
+          {visible.map((item, idx) => (
             <TableRow key={idx} className="hover:bg-muted/50">
               <TableCell>
                 <Badge
@@ -37,10 +73,25 @@ export const UnmatchedTransactionsTable = ({ transactions }: UnmatchedTransactio
                   {item.type === 'source' ? 'Source' : 'Target'}
                 </Badge>
               </TableCell>
-              <TableCell className="font-medium">{item.key}</TableCell>
+              <TableCell className="font-medium">
+                {item.key}
+                {item.row[PROVENANCE_COLUMN] && (
+                  <div className="text-xs font-normal text-muted-foreground whitespace-nowrap">
+                    {item.row[PROVENANCE_COLUMN]}
+                  </div>
+                )}
+              </TableCell>
+              {hasDates && <TableCell className="whitespace-nowrap">{item.date ?? ''}</TableCell>}
               <TableCell>{item.reason}</TableCell>
             </TableRow>
           ))}
+          {visible.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-muted-foreground">
+                No transactions in this date range
+              </TableCell>
+            </TableRow>
+          )}
         </TableBody>
       </Table>
     </div>
@@ -0,0 +1,102 @@
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { COLUMN_TYPE_LABELS, profileColumns } from '@/utils/profileUtils';
+import { type NumberFormat } from '@/utils/numberFormatUtils';
+import { DATE_FORMATS } from '@/utils/dateFormatUtils';
+import { type DateFormat } from '@/types/profile';
+
+interface ColumnProfileTableProps {
+  idPrefix: string;
+  headers: string[];
+  data: string[][];
+  numberFormat?: NumberFormat;
+  dateFormats?: Record<string, DateFormat>;
+  onDateFormatChange: (column: string, dateFormat: DateFormat) => void;
+}
+
+export const ColumnProfileTable = ({
+  idPrefix,
+  headers,
+  data,
+  numberFormat,
+  dateFormats,
+  onDateFormatChange
+}: ColumnProfileTableProps) => {
+  const profiles = useMemo(
+    () => profileColumns(headers, data, numberFormat, dateFormats),
+    [headers, data, numberFormat, dateFormats]
+  );
+  const hasAmbiguousDates = profiles.some(profile => profile.dateFormatAmbiguous);
+
+  const confidenceStyle = (confidence: number) => {
+    if (confidence >= 98) return '';
+    return confidence >= 90 ? 'text-amber-600' : 'text-red-600';
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Column Profile</Label>
+      <div className="bg-muted rounded overflow-auto max-h-64 text-xs">
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="px-2 py-1 font-medium">Column</th>
+              <th className="px-2 py-1 font-medium">Type</th>
+              <th className="px-2 py-1 font-medium text-right">Empty</th>
+              <th className="px-2 py-1 font-medium text-right">Distinct</th>
+              <th className="px-2 py-1 font-medium">Min</th>
+              <th className="px-2 py-1 font-medium">Max</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profiles.map(profile => (
+              <tr key={profile.name} className="border-t border-background">
+                <td className="px-2 py-1 font-medium whitespace-nowrap">{profile.name}</td>
+                <td className="px-2 py-1 whitespace-nowrap">
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                    {COLUMN_TYPE_LABELS[profile.type]}
+                  </Badge>{' '}
+                  <span className={confidenceStyle(profile.confidence)} title="Share of values that fit the type">
+                    {profile.confidence}%
+                  </span>
+                  {profile.dateFormat && (
+                    <Select
+                      value={profile.dateFormat}
+                      onValueChange={(value) => onDateFormatChange(profile.name, value as DateFormat)}
+                    >
+                      <SelectTrigger
+                        id={`${idPrefix}DateFormat-${profile.name}`}
+                        aria-label={`Date format of ${profile.name}`}
+                        className={`mt-1 h-7 w-40 text-xs ${profile.dateFormatAmbiguous ? 'border-amber-500' : ''}`}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DATE_FORMATS.map(({ value, label }) => (
+                          <SelectItem key={value} value={value} className="text-xs">
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </td>
+                <td className="px-2 py-1 text-right">{Math.round(profile.nullRate * 100)}%</td>
+                <td className="px-2 py-1 text-right">{profile.distinctCount.toLocaleString()}</td>
+                <td className="px-2 py-1 font-mono whitespace-nowrap">{profile.min ?? ''}</td>
+                <td className="px-2 py-1 font-mono whitespace-nowrap">{profile.max ?? ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {hasAmbiguousDates && (
+        <p className="text-xs text-amber-600">
+          Some dates fit both day first and month first and are read day first. Check the highlighted formats.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { DELIMITERS } from '@/utils/csvUtils';
+import { ENCODINGS } from '@/utils/encodingUtils';
+import { ARRAY_MODES, type ArrayMode } from '@/utils/jsonUtils';
+import { NUMBER_FORMATS, type NumberFormat } from '@/utils/numberFormatUtils';
+import { type DateFormat } from '@/types/profile';
+import { type FileData, type ParseOptions } from '@/types/upload';
+import { type RowClass } from '@/types/diagnostics';
+import { DatasetMetadata } from '@/components/DatasetMetadata';
+import { ColumnProfileTable } from './ColumnProfileTable';
+import { FixedWidthDesigner } from './FixedWidthDesigner';
+import { HeaderRowPicker } from './HeaderRowPicker';
+import { RowClassPreview } from './RowClassPreview';
+import { TableBlockPicker } from './TableBlockPicker';
+
+interface FileMetadataPanelProps {
+  title: string;
+  idPrefix: string;
+  fileData: FileData;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onHeaderRowChange: (headerRowIndex: number, headerRowCount: number) => void;
+  onHeaderRename: (columnIndex: number, name: string) => void;
+  onParseOptionsChange: (options: ParseOptions) => void;
+  onSheetChange: (sheetName: string) => void;
+  onCellRangeChange: (cellRange: string) => void;
+  onColumnBoundariesChange: (boundaries: number[]) => void;
+  onRowClassToggle: (rowClass: RowClass, include: boolean) => void;
+  onTableBlocksChange: (selectedBlocks: number[]) => void;
+  onNumberFormatChange: (numberFormat: NumberFormat) => void;
+  onDateFormatChange: (column: string, dateFormat: DateFormat) => void;
+}
+
+export const FileMetadataPanel = ({
+  title,
+  idPrefix,
+  fileData,
+  open,
+  onOpenChange,
+  onHeaderRowChange,
+  onHeaderRename,
+  onParseOptionsChange,
+  onSheetChange,
+  onCellRangeChange,
+  onColumnBoundariesChange,
+  onRowClassToggle,
+  onTableBlocksChange,
+  onNumberFormatChange,
+  onDateFormatChange
+}: FileMetadataPanelProps) => {
+  return (
+    <Collapsible open={open} onOpenChange={onOpenChange}>
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">{title}</h4>
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm">
+            {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent>
+        <div className="pt-2 pb-4 space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="text-muted-foreground">File name:</div>
+            <div className="font-medium">{fileData.fileName}</div>
+            
+            <div className="text-muted-foreground">Rows:</div>
+            <div className="font-medium">{fileData.rowCount}</div>
+            
+            <div className="text-muted-foreground">Columns:</div>
+            <div className="font-medium">{fileData.columnCount}</div>
+          </div>
+          
+          {fileData.format === 'excel' && fileData.workbook && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}Sheet`}>Sheet</Label>
+                <Select value={fileData.sheetName} onValueChange={onSheetChange}>
+                  <SelectTrigger id={`${idPrefix}Sheet`} className="w-full">
+                    <SelectValue placeholder="Select a sheet" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fileData.workbook.sheets.map(sheet => (
+                      <SelectItem key={sheet.name} value={sheet.name}>
+                        {sheet.name} ({sheet.usedRange})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}CellRange`}>Cell Range</Label>
+                {/* Applied on blur or Enter, so half-typed ranges don't trigger a re-parse */}
+                <Input
+                  key={`${fileData.sheetName}-${fileData.cellRange}`}
+                  id={`${idPrefix}CellRange`}
+                  defaultValue={fileData.cellRange}
+                  placeholder="e.g. A1:F200"
+                  onBlur={(e) => {
+                    if (e.target.value !== fileData.cellRange) onCellRangeChange(e.target.value);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      e.currentTarget.blur();
+                    }
+                  }}
+                />
+              </div>
+            </>
+          )}
+          
+          {(fileData.format === 'csv' || fileData.format === 'fixed-width') && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}Layout`}>Layout</Label>
+                <Select
+                  value={fileData.format === 'fixed-width' ? 'fixed-width' : 'delimited'}
+                  onValueChange={(value) => onParseOptionsChange({ layout: value as ParseOptions['layout'] })}
+                >
+                  <SelectTrigger id={`${idPrefix}Layout`} className="w-full">
+                    <SelectValue placeholder="Select a layout" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="delimited">Delimited</SelectItem>
+                    <SelectItem value="fixed-width">Fixed width</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}Encoding`}>Encoding</Label>
+                <Select
+                  value={fileData.encoding}
+                  onValueChange={(value) => onParseOptionsChange({ encoding: value })}
+                >
+                  <SelectTrigger id={`${idPrefix}Encoding`} className="w-full">
+                    <SelectValue placeholder="Select an encoding" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ENCODINGS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          
+          {fileData.format === 'csv' && (
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}Delimiter`}>Delimiter</Label>
+              <Select
+                value={fileData.delimiter}
+                onValueChange={(value) => onParseOptionsChange({ delimiter: value })}
+              >
+                <SelectTrigger id={`${idPrefix}Delimiter`} className="w-full">
+                  <SelectValue placeholder="Select a delimiter" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIMITERS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          
+          {fileData.format === 'json' && (
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}ArrayMode`}>Arrays</Label>
+              <Select
+                value={fileData.arrayMode}
+                onValueChange={(value) => onParseOptionsChange({ arrayMode: value as ArrayMode })}
+              >
+                <SelectTrigger id={`${idPrefix}ArrayMode`} className="w-full">
+                  <SelectValue placeholder="Select how to handle arrays" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ARRAY_MODES.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}NumberFormat`}>Number Format</Label>
+            <Select
+              value={fileData.numberFormat}
+              onValueChange={(value) => onNumberFormatChange(value as NumberFormat)}
+            >
+              <SelectTrigger id={`${idPrefix}NumberFormat`} className="w-full">
+                <SelectValue placeholder="Select how amounts are written" />
+              </SelectTrigger>
+              <SelectContent>
+                {NUMBER_FORMATS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          {fileData.format === 'fixed-width' && fileData.lines && (
+            <FixedWidthDesigner
+              lines={fileData.lines}
+              boundaries={fileData.columnBoundaries ?? []}
+              onBoundariesChange={onColumnBoundariesChange}
+            />
+          )}
+          
+          {fileData.tables && (
+            <TableBlockPicker
+              idPrefix={idPrefix}
+              tables={fileData.tables}
+              selectedBlocks={fileData.selectedBlocks ?? []}
+              onSelectedBlocksChange={onTableBlocksChange}
+            />
+          )}
+          
+          <HeaderRowPicker
+            idPrefix={idPrefix}
+            rawRows={fileData.rawRows}
+            lineNumbers={fileData.lineNumbers}
+            headerRowIndex={fileData.selectedHeaderRowIndex}
+            headerRowCount={fileData.diagnostics.headerRowCount}
+            onChange={onHeaderRowChange}
+          />
+          
+          {fileData.metadata && Object.keys(fileData.metadata).length > 0 && (
+            <div className="space-y-2">
+              <Label>Statement Details</Label>
+              <div className="bg-muted p-2 rounded">
+                <DatasetMetadata metadata={fileData.metadata} />
+              </div>
+            </div>
+          )}
+          
+          <RowClassPreview idPrefix={idPrefix} fileData={fileData} onRowClassToggle={onRowClassToggle} />
+          
+          <div className="space-y-2">
+            <Label>Column Names</Label>
+            <p className="text-xs text-muted-foreground">
+              Rename a column by editing its name. Blank and repeated names are numbered automatically.
+            </p>
+            <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+              {fileData.headers.map((header, index) => (
+                // Applied on blur or Enter, like the cell range
+                <Input
+                  key={`${fileData.selectedHeaderRowIndex}-${index}-${header}`}
+                  aria-label={`Name of column ${index + 1}`}
+                  className="h-8 text-sm"
+                  defaultValue={header}
+                  onBlur={(e) => {
+                    if (e.target.value !== header) onHeaderRename(index, e.target.value);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      e.currentTarget.blur();
+                    }
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+          
+          <ColumnProfileTable
+            idPrefix={idPrefix}
+            headers={fileData.headers}
+            data={fileData.data}
+            numberFormat={fileData.numberFormat}
+            dateFormats={fileData.dateFormats}
+            onDateFormatChange={onDateFormatChange}
+          />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,100 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Wand2 } from 'lucide-react';
+import { suggestColumnBoundaries, toggleColumnBoundary } from '@/utils/fixedWidthUtils';
+
+interface FixedWidthDesignerProps {
+  lines: string[];
+  boundaries: number[];
+  onBoundariesChange: (boundaries: number[]) => void;
+  previewLineCount?: number;
+}
+
+// Build a ruler like "....+....1....+....2" where the digits mark every tenth character
+const buildRuler = (width: number): string => {
+  return Array.from({ length: width }, (_, index) => {
+    const position = index + 1;
+    if (position % 10 === 0) return String((position / 10) % 10);
+    return position % 5 === 0 ? '+' : '.';
+  }).join('');
+};
+
+export const FixedWidthDesigner = ({
+  lines,
+  boundaries,
+  onBoundariesChange,
+  previewLineCount = 30
+}: FixedWidthDesignerProps) => {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+
+  const previewLines = lines.slice(0, previewLineCount);
+  const width = Math.max(1, ...previewLines.map(line => line.length));
+
+  // Place or remove a boundary at the gap between characters closest to the click
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!contentRef.current || !measureRef.current) return;
+
+    const charWidth = measureRef.current.getBoundingClientRect().width / 10;
+    const offset = e.clientX - contentRef.current.getBoundingClientRect().left;
+    const position = Math.round(offset / charWidth);
+    if (position <= 0 || position >= width) return;
+
+    onBoundariesChange(toggleColumnBoundary(boundaries, position));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Column Boundaries</Label>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onBoundariesChange(suggestColumnBoundaries(lines))}
+          >
+            <Wand2 className="h-4 w-4 mr-1" />
+            Suggest
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={boundaries.length === 0}
+            onClick={() => onBoundariesChange([])}
+          >
+            Clear
+          </Button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Click between characters to add a boundary, click a boundary to remove it.
+      </p>
+      <div className="bg-muted rounded overflow-auto max-h-64">
+        <div
+          ref={contentRef}
+          className="relative font-mono text-xs leading-5 whitespace-pre cursor-crosshair select-none w-max"
+          onClick={handleClick}
+        >
+          <span ref={measureRef} className="absolute invisible" aria-hidden="true">0123456789</span>
+          <div className="text-muted-foreground border-b border-border">{buildRuler(width)}</div>
+          {previewLines.map((line, index) => (
+            <div key={index}>{line || ' '}</div>
+          ))}
+          {boundaries.map(boundary => (
+            <div
+              key={boundary}
+              className="absolute top-0 bottom-0 w-px bg-primary pointer-events-none"
+              style={{ left: `${boundary}ch` }}
+            />
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {boundaries.length + 1} columns at positions {[0, ...boundaries].map(b => b + 1).join(', ')}
+      </p>
+    </div>
+  );
+};
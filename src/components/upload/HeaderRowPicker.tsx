@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface HeaderRowPickerProps {
+  idPrefix: string;
+  rawRows: string[][];
+  lineNumbers?: number[];
+  headerRowIndex: number;
+  headerRowCount: number;
+  onChange: (headerRowIndex: number, headerRowCount: number) => void;
+  maxHeaderRowCount?: number;
+}
+
+const ROW_HEIGHT = 24;
+const VISIBLE_HEIGHT = 192;
+const OVERSCAN = 10;
+
+// Lists every line of the file, but only renders the lines scrolled into view
+export const HeaderRowPicker = ({
+  idPrefix,
+  rawRows,
+  lineNumbers,
+  headerRowIndex,
+  headerRowCount,
+  onChange,
+  maxHeaderRowCount = 4
+}: HeaderRowPickerProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const hasScrolledToHeader = useRef(false);
+
+  // Start with the current header in view, only when the picker opens and not on every
+  // header change
+  useEffect(() => {
+    if (hasScrolledToHeader.current || !scrollRef.current) return;
+    hasScrolledToHeader.current = true;
+    scrollRef.current.scrollTop = Math.max(0, (headerRowIndex - 2) * ROW_HEIGHT);
+  }, [headerRowIndex]);
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(rawRows.length, Math.ceil((scrollTop + VISIBLE_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const rowStyle = (rowIndex: number) => {
+    if (rowIndex >= headerRowIndex && rowIndex < headerRowIndex + headerRowCount) {
+      return 'bg-primary/15 font-medium';
+    }
+    return rowIndex < headerRowIndex ? 'text-muted-foreground hover:bg-muted' : 'hover:bg-muted';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label>Header Row</Label>
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}HeaderRowCount`} className="text-xs font-normal text-muted-foreground">
+            Rows in header
+          </Label>
+          <Select
+            value={headerRowCount.toString()}
+            onValueChange={(value) => onChange(headerRowIndex, parseInt(value, 10))}
+          >
+            <SelectTrigger id={`${idPrefix}HeaderRowCount`} className="w-16 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: maxHeaderRowCount }, (_, index) => index + 1).map(count => (
+                <SelectItem key={count} value={count.toString()}>
+                  {count}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Click the line that holds the column names. Lines above it are skipped.
+      </p>
+      <div
+        ref={scrollRef}
+        className="bg-muted/50 rounded border overflow-auto text-xs font-mono"
+        style={{ height: VISIBLE_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div className="relative" style={{ height: rawRows.length * ROW_HEIGHT }}>
+          {rawRows.slice(firstVisible, lastVisible).map((row, offset) => {
+            const rowIndex = firstVisible + offset;
+            return (
+              <button
+                key={rowIndex}
+                type="button"
+                className={`absolute left-0 flex w-full min-w-max items-center gap-2 px-2 text-left whitespace-nowrap ${rowStyle(rowIndex)}`}
+                style={{ top: rowIndex * ROW_HEIGHT, height: ROW_HEIGHT }}
+                onClick={() => onChange(rowIndex, headerRowCount)}
+              >
+                <span className="w-10 shrink-0 text-right text-muted-foreground">
+                  {lineNumbers?.[rowIndex] ?? rowIndex + 1}
+                </span>
+                <span>{row.join(' | ')}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
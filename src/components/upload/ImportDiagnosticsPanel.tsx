@@ -0,0 +1,126 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import { RESOLUTION_LABELS, getRepairedRows, getUnresolvedIssues } from '@/utils/diagnosticsUtils';
+import { type ImportDiagnostics, type RowIssueKind, type RowResolution } from '@/types/diagnostics';
+
+interface ImportDiagnosticsPanelProps {
+  diagnostics: ImportDiagnostics;
+  // Without a row index the resolution applies to every unresolved row that allows it
+  onResolutionChange: (resolution: RowResolution, rowIndex?: number) => void;
+  maxListedRows?: number;
+}
+
+const KIND_LABELS: Record<RowIssueKind, string> = {
+  blank: 'Blank',
+  short: 'Short',
+  long: 'Overflow',
+  truncated: 'Truncated',
+  unreadable: 'Unreadable',
+  'non-data': 'Non-data'
+};
+
+export const ImportDiagnosticsPanel = ({
+  diagnostics,
+  onResolutionChange,
+  maxListedRows = 100
+}: ImportDiagnosticsPanelProps) => {
+  // Blank lines are only summarised, they never hold data
+  const blankIssues = diagnostics.issues.filter(issue => issue.kind === 'blank');
+  const rowIssues = diagnostics.issues.filter(issue => issue.kind !== 'blank');
+  if (rowIssues.length === 0 && blankIssues.length === 0) return null;
+
+  const unresolvedIssues = getUnresolvedIssues(diagnostics);
+  const repairedRows = getRepairedRows(diagnostics);
+  const countKind = (kind: RowIssueKind) => rowIssues.filter(issue => issue.kind === kind).length;
+
+  const summary = (['short', 'long', 'truncated', 'unreadable', 'non-data'] as RowIssueKind[])
+    .filter(kind => countKind(kind) > 0)
+    .map(kind => `${countKind(kind)} ${KIND_LABELS[kind].toLowerCase()}`)
+    .join(', ');
+
+  // Offer the bulk actions that at least one unresolved row allows
+  const bulkResolutions = (['pad', 'repair', 'merge', 'exclude'] as RowResolution[])
+    .filter(resolution => unresolvedIssues.some(issue => issue.availableResolutions.includes(resolution)));
+
+  return (
+    <Alert className={unresolvedIssues.length > 0 ? 'border-amber-500/50' : undefined}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Import warnings</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p className="text-sm">
+          {rowIssues.length > 0 && `${rowIssues.length} rows were left out or don't match the ${diagnostics.columnCount} header columns (${summary}). `}
+          {unresolvedIssues.length > 0
+            ? `${unresolvedIssues.length} still need a decision.`
+            : rowIssues.length > 0 && 'All rows have been dealt with.'}
+        </p>
+
+        {blankIssues.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {blankIssues.length} blank lines excluded (line {blankIssues.slice(0, 10).map(issue => issue.lineNumber).join(', ')}
+            {blankIssues.length > 10 ? ', ...' : ''})
+          </p>
+        )}
+
+        {bulkResolutions.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {bulkResolutions.map(resolution => (
+              <Button
+                key={resolution}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onResolutionChange(resolution)}
+              >
+                {RESOLUTION_LABELS[resolution]} (all)
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {rowIssues.length > 0 && (
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {rowIssues.slice(0, maxListedRows).map(issue => (
+              <div key={issue.rowIndex} className="flex items-center gap-2 text-xs border-b pb-2">
+                <div className="w-16 shrink-0 font-medium">Line {issue.lineNumber}</div>
+                <Badge variant="outline" className="shrink-0">{KIND_LABELS[issue.kind]}</Badge>
+                <div className="min-w-0 flex-1">
+                  <div className="text-muted-foreground">{issue.reason}</div>
+                  <div className="truncate font-mono" title={issue.cells.join(' | ')}>
+                    {issue.cells.join(' | ')}
+                  </div>
+                </div>
+                {repairedRows.has(issue.rowIndex) ? (
+                  <div className="w-44 shrink-0 text-muted-foreground">Joined with the line above</div>
+                ) : (
+                  <Select
+                    value={issue.resolution ?? undefined}
+                    onValueChange={(value) => onResolutionChange(value as RowResolution, issue.rowIndex)}
+                  >
+                    <SelectTrigger className="w-44 h-8 shrink-0 text-xs">
+                      <SelectValue placeholder="Choose..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {issue.availableResolutions.map(resolution => (
+                        <SelectItem key={resolution} value={resolution}>
+                          {RESOLUTION_LABELS[resolution]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            ))}
+            {rowIssues.length > maxListedRows && (
+              <p className="text-xs text-muted-foreground">
+                {rowIssues.length - maxListedRows} more rows not shown, use the buttons above to resolve them all.
+              </p>
+            )}
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { ClipboardPaste } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { readClipboardTable } from '@/utils/clipboardUtils';
+
+interface PasteDataDialogProps {
+  idPrefix: string;
+  title: string;
+  disabled?: boolean;
+  onImport: (text: string) => void;
+}
+
+export const PasteDataDialog = ({ idPrefix, title, disabled, onImport }: PasteDataDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+
+  // Take the table from the clipboard ourselves, so HTML tables arrive as columns too
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const table = readClipboardTable(e.clipboardData);
+    if (table === null) return;
+    e.preventDefault();
+    setText(table);
+  };
+
+  const handleImport = () => {
+    onImport(text);
+    setOpen(false);
+    setText('');
+  };
+
+  const lineCount = text ? text.split('\n').length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="w-full" disabled={disabled}>
+          <ClipboardPaste className="h-4 w-4 mr-2" />
+          Paste data
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Copy cells from a spreadsheet or a table on a web page and paste them below. The header row
+            is detected as for an uploaded file.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}PasteData`}>Pasted cells</Label>
+          <Textarea
+            id={`${idPrefix}PasteData`}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onPaste={handlePaste}
+            placeholder="Paste here with Ctrl+V or Cmd+V"
+            className="h-64 font-mono text-xs whitespace-pre"
+            wrap="off"
+          />
+          {lineCount > 0 && (
+            <p className="text-xs text-muted-foreground">{lineCount.toLocaleString()} lines</p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleImport} disabled={!text.trim()}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,115 @@
+import { Fragment } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { NON_DATA_CLASSES, ROW_CLASS_LABELS } from '@/utils/rowClassifier';
+import { type RowClass } from '@/types/diagnostics';
+import { type FileData } from '@/types/upload';
+
+interface RowClassPreviewProps {
+  idPrefix: string;
+  fileData: FileData;
+  onRowClassToggle: (rowClass: RowClass, include: boolean) => void;
+  leadingRowCount?: number;
+  maxSuspectRows?: number;
+}
+
+export const RowClassPreview = ({
+  idPrefix,
+  fileData,
+  onRowClassToggle,
+  leadingRowCount = 12,
+  maxSuspectRows = 50
+}: RowClassPreviewProps) => {
+  const { rawRows, lineNumbers, selectedHeaderRowIndex } = fileData;
+  const { rowClasses, excludedClasses, headerRowCount } = fileData.diagnostics;
+  const dataStartIndex = selectedHeaderRowIndex + headerRowCount;
+
+  // Non-data rows after the header are the suspects; those before it are expected
+  const suspectRows = rowClasses
+    .map((rowClass, index) => ({ rowClass, index }))
+    .filter(({ rowClass, index }) => index >= dataStartIndex && rowClass !== 'data');
+
+  // Show the start of the file, then every suspect row further down
+  const previewIndexes = Array.from(new Set([
+    ...rawRows.slice(0, dataStartIndex + leadingRowCount).map((_, index) => index),
+    ...suspectRows.slice(0, maxSuspectRows).map(({ index }) => index)
+  ])).sort((a, b) => a - b);
+
+  const classCounts = NON_DATA_CLASSES
+    .map(rowClass => ({
+      rowClass,
+      count: suspectRows.filter(row => row.rowClass === rowClass).length
+    }))
+    .filter(({ count }) => count > 0);
+
+  const rowStyle = (rowClass: RowClass, index: number) => {
+    if (index >= selectedHeaderRowIndex && index < dataStartIndex) return 'bg-primary/10 font-medium';
+    if (rowClass === 'data') return '';
+    const excluded = excludedClasses.includes(rowClass) ? ' line-through opacity-60' : '';
+    return index >= dataStartIndex ? `bg-amber-100 dark:bg-amber-900/30${excluded}` : `text-muted-foreground${excluded}`;
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Preview</Label>
+
+      {classCounts.length > 0 && (
+        <div className="space-y-1">
+          {classCounts.map(({ rowClass, count }) => (
+            <div key={rowClass} className="flex items-center justify-between text-sm">
+              <Label htmlFor={`${idPrefix}Include-${rowClass}`} className="font-normal">
+                Include {count} suspected {ROW_CLASS_LABELS[rowClass].toLowerCase()} rows
+              </Label>
+              <Switch
+                id={`${idPrefix}Include-${rowClass}`}
+                checked={!excludedClasses.includes(rowClass)}
+                onCheckedChange={(checked) => onRowClassToggle(rowClass, checked)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-muted rounded overflow-auto max-h-64 text-xs">
+        <table className="w-full">
+          <tbody>
+            {previewIndexes.map((rowIndex, position) => {
+              const rowClass = rowClasses[rowIndex] ?? 'data';
+              const skipped = position > 0 && rowIndex > previewIndexes[position - 1] + 1;
+              return (
+                <Fragment key={rowIndex}>
+                  {skipped && (
+                    <tr>
+                      <td colSpan={3} className="px-2 text-muted-foreground">...</td>
+                    </tr>
+                  )}
+                  <tr className={rowStyle(rowClass, rowIndex)}>
+                    <td className="px-2 py-0.5 text-right text-muted-foreground whitespace-nowrap">
+                      {lineNumbers?.[rowIndex] ?? rowIndex + 1}
+                    </td>
+                    <td className="px-2 py-0.5 whitespace-nowrap">
+                      {rowClass !== 'data' && (
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                          {ROW_CLASS_LABELS[rowClass]}
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="px-2 py-0.5 font-mono whitespace-nowrap">
+                      {rawRows[rowIndex].join(' | ')}
+                    </td>
+                  </tr>
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {suspectRows.length > maxSuspectRows && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {maxSuspectRows} of {suspectRows.length} suspected non-data rows.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { areBlocksCompatible, BLOCK_COLUMN } from '@/utils/tableBlockUtils';
+import { type TableBlocks } from '@/types/upload';
+
+interface TableBlockPickerProps {
+  idPrefix: string;
+  tables: TableBlocks;
+  selectedBlocks: number[];
+  onSelectedBlocksChange: (selectedBlocks: number[]) => void;
+}
+
+export const TableBlockPicker = ({
+  idPrefix,
+  tables,
+  selectedBlocks,
+  onSelectedBlocksChange
+}: TableBlockPickerProps) => {
+  const { blocks } = tables;
+
+  return (
+    <div className="space-y-2">
+      <Label>Tables</Label>
+      <p className="text-xs text-muted-foreground">
+        This file holds {blocks.length} tables. Pick one to reconcile, or several with the same columns
+        to append them with a "{BLOCK_COLUMN}" column. With none picked the whole file is used.
+      </p>
+      {blocks.map((block, index) => {
+        const selected = selectedBlocks.includes(index);
+        // Only blocks with the same columns as the ones already picked can be added
+        const compatible = selectedBlocks.every(other => areBlocksCompatible(blocks[other], block));
+        const lineNumber = tables.lineNumbers?.[block.headerRowIndex] ?? block.headerRowIndex + 1;
+
+        return (
+          <div key={index} className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}Block-${index}`}
+              checked={selected}
+              disabled={!selected && !compatible}
+              onCheckedChange={(checked) => onSelectedBlocksChange(
+                checked ? [...selectedBlocks, index] : selectedBlocks.filter(other => other !== index)
+              )}
+            />
+            <Label
+              htmlFor={`${idPrefix}Block-${index}`}
+              className="font-normal"
+              title={compatible ? undefined : 'Its columns differ from the tables already picked'}
+            >
+              {block.title}{' '}
+              <span className="text-xs text-muted-foreground">
+                ({block.headers.length} columns, {block.rowCount} rows, from line {lineNumber})
+              </span>
+            </Label>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
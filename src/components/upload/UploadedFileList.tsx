@@ -0,0 +1,70 @@
+import { FileText, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { alignHeaders, describeSchemaDifference, PROVENANCE_COLUMN } from '@/utils/mergeUtils';
+import { type FileData } from '@/types/upload';
+
+interface UploadedFileListProps {
+  files: FileData[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onRemove: (index: number) => void;
+}
+
+export const UploadedFileList = ({ files, activeIndex, onSelect, onRemove }: UploadedFileListProps) => {
+  if (files.length === 0) return null;
+
+  const { differences } = alignHeaders(files);
+  const totalRows = files.reduce((count, file) => count + file.rowCount, 0);
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1">
+        {files.map((file, index) => (
+          <li
+            key={file.fileName}
+            className={`flex items-center gap-2 rounded px-2 py-1 text-sm ${
+              index === activeIndex ? 'bg-muted' : 'hover:bg-muted/50'
+            }`}
+          >
+            <button
+              type="button"
+              className="flex flex-1 items-center gap-2 min-w-0 text-left"
+              onClick={() => onSelect(index)}
+              title={files.length > 1 ? 'Configure this file' : undefined}
+            >
+              <FileText className="h-4 w-4 shrink-0 text-csv-blue" />
+              <span className="font-medium text-csv-blue truncate">{file.fileName}</span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {file.rowCount.toLocaleString()} rows
+              </span>
+            </button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              aria-label={`Remove ${file.fileName}`}
+              onClick={() => onRemove(index)}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+      {files.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          {files.length} files with {totalRows.toLocaleString()} rows are appended by column name, with a
+          "{PROVENANCE_COLUMN}" column naming the file and line of each row. Select a file to configure it.
+        </p>
+      )}
+      {differences.length > 0 && (
+        <div className="rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-700 space-y-1">
+          <p className="font-medium">The files have different columns. Rename columns to line them up, or the missing cells stay empty.</p>
+          {differences.map(difference => (
+            <p key={difference.fileName}>{describeSchemaDifference(difference)}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
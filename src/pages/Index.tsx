@@ -4,30 +4,13 @@ import FileUploadForm from '@/components/FileUploadForm';
 import MatchingInterface from '@/components/MatchingInterface';
 import ReconciliationInterface from '@/components/ReconciliationInterface';
 import { Toaster } from 'sonner';
+import { type MatchingRule, type ReconciliationData } from '@/types/reconciliation';
 
 const Index = () => {
   const [stage, setStage] = useState<'upload' | 'matching' | 'reconciliation'>('upload');
-  const [sourceData, setSourceData] = useState<{
-    headers: string[];
-    data: string[][];
-    fileName: string;
-    headerRowIndex: number;
-    rowCount: number;
-    columnCount: number;
-  } | null>(null);
-  const [targetData, setTargetData] = useState<{
-    headers: string[];
-    data: string[][];
-    fileName: string;
-    headerRowIndex: number;
-    rowCount: number;
-    columnCount: number;
-  } | null>(null);
-  const [uniqueKeyMapping, setUniqueKeyMapping] = useState<{
-    sourceKey: string;
-    targetKey: string;
-    confidence: number;
-  } | null>(null);
+  const [sourceData, setSourceData] = useState<ReconciliationData | null>(null);
+  const [targetData, setTargetData] = useState<ReconciliationData | null>(null);
+  const [matchingRules, setMatchingRules] = useState<MatchingRule[] | null>(null);
   const [reconciliationColumns, setReconciliationColumns] = useState<{
     sourceColumns: string[];
     targetColumns: string[];
@@ -35,34 +18,16 @@ const Index = () => {
   } | null>(null);
 
   const handleFilesUploaded = (
-    sourceFile: {
-      headers: string[];
-      data: string[][];
-      fileName: string;
-      headerRowIndex: number;
-      rowCount: number;
-      columnCount: number;
-    },
-    targetFile: {
-      headers: string[];
-      data: string[][];
-      fileName: string;
-      headerRowIndex: number;
-      rowCount: number;
-      columnCount: number;
-    }
+    sourceFile: ReconciliationData,
+    targetFile: ReconciliationData
   ) => {
     setSourceData(sourceFile);
     setTargetData(targetFile);
     setStage('matching');
   };
 
-  const handleUniqueKeySelected = (uniqueKey: {
-    sourceKey: string;
-    targetKey: string;
-    confidence: number;
-  }) => {
-    setUniqueKeyMapping(uniqueKey);
+  const handleMatchingRulesSelected = (rules: MatchingRule[]) => {
+    setMatchingRules(rules);
   };
 
   const handleReconciliationColumnsSelected = (columns: {
@@ -78,7 +43,7 @@ const Index = () => {
     setStage('upload');
     setSourceData(null);
     setTargetData(null);
-    setUniqueKeyMapping(null);
+    setMatchingRules(null);
     setReconciliationColumns(null);
   };
 
@@ -122,19 +87,19 @@ const Index = () => {
             <MatchingInterface
               sourceData={sourceData}
               targetData={targetData}
-              onUniqueKeySelected={handleUniqueKeySelected}
+              onMatchingRulesSelected={handleMatchingRulesSelected}
               onReconciliationColumnsSelected={handleReconciliationColumnsSelected}
               onReset={handleReset}
             />
           </div>
         )}
         
-        {stage === 'reconciliation' && sourceData && targetData && uniqueKeyMapping && reconciliationColumns && (
+        {stage === 'reconciliation' && sourceData && targetData && matchingRules && reconciliationColumns && (
           <div className="bg-white rounded-xl shadow-sm border border-gray-200/50 p-8">
             <ReconciliationInterface
               sourceData={sourceData}
               targetData={targetData}
-              uniqueKeyMapping={uniqueKeyMapping}
+              matchingRules={matchingRules}
               reconciliationColumns={reconciliationColumns}
               onReset={handleReset}
             />
@@ -0,0 +1,43 @@
+// What a line of the file holds, as guessed by the row classifier
+export type RowClass = 'metadata' | 'header' | 'data' | 'subtotal' | 'footer';
+
+// Why a row after the header didn't fit the table, or was left out as a non-data row
+export type RowIssueKind = 'blank' | 'short' | 'long' | 'truncated' | 'unreadable' | 'non-data';
+
+// What to do with a problem row: leave it out, pad it with empty cells, join it with the
+// next row (a record split by an unquoted line break), merge its overflow cells into the last column,
+// or keep a non-data row as data after all
+export type RowResolution = 'exclude' | 'pad' | 'repair' | 'merge' | 'include';
+
+export interface RowIssue {
+  // Index into the raw rows of the file
+  rowIndex: number;
+  // 1-based line in the original file (or sheet row) where the row starts
+  lineNumber: number;
+  kind: RowIssueKind;
+  reason: string;
+  cells: string[];
+  availableResolutions: RowResolution[];
+  // Null until someone decides; unresolved rows are left out like excluded ones
+  resolution: RowResolution | null;
+}
+
+// Rows that didn't make it into the table as-is, and what happens to them
+export interface ImportDiagnostics {
+  columnCount: number;
+  // Rows the header spans, the data starts right after them
+  headerRowCount: number;
+  issues: RowIssue[];
+  // Class of every raw row, and the classes whose rows are left out of the data
+  rowClasses: RowClass[];
+  excludedClasses: RowClass[];
+}
+
+// A line an importer with a fixed layout couldn't read. It is kept as a row of its own so
+// the user has to exclude it explicitly instead of losing it silently.
+export interface UnreadableRow {
+  rowIndex: number;
+  // 1-based line in the original file where the unreadable record starts
+  lineNumber: number;
+  reason: string;
+}
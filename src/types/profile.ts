@@ -0,0 +1,30 @@
+// Date formats, named after how they write the date. Each accepts "-", "/" or "." between the
+// parts, two or four digit years and an optional time such as "14:30" or "2:30 PM".
+export type DateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYYMMDD' | 'DD MMM YYYY';
+
+export type ColumnType =
+  | 'integer'
+  | 'decimal'
+  | 'currency'
+  | 'date'
+  | 'datetime'
+  | 'boolean'
+  | 'identifier'
+  | 'text';
+
+// What a column holds, inferred from its values after parsing
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  // Percentage of the filled values that fit the type
+  confidence: number;
+  // Share of empty values, from 0 to 1
+  nullRate: number;
+  distinctCount: number;
+  // Smallest and largest value ordered by the column type; dates are given as ISO 8601
+  min?: string;
+  max?: string;
+  // Date columns only: how the dates are written, and whether day first and month first both fit
+  dateFormat?: DateFormat;
+  dateFormatAmbiguous?: boolean;
+}
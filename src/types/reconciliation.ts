@@ -1,4 +1,8 @@
 
+import { type ImportDiagnostics, type UnreadableRow } from './diagnostics';
+import { type ColumnProfile } from './profile';
+import { type NumberFormat } from '@/utils/numberFormatUtils';
+
 export interface ReconciliationData {
   headers: string[];
   data: string[][];
@@ -6,12 +10,63 @@ export interface ReconciliationData {
   headerRowIndex: number;
   rowCount: number;
   columnCount: number;
+  delimiter?: string;
+  encoding?: string;
+  // Character offsets where the columns of a fixed-width file start
+  columnBoundaries?: number[];
+  // Dataset-level attributes such as account number or statement balances
+  metadata?: Record<string, string>;
+  // Columns the importer knows to be unique transaction identifiers, offered first as keys
+  keyCandidates?: string[];
+  // Rows that didn't fit the table during import and what was done with each
+  diagnostics?: ImportDiagnostics;
+  // Data rows a statement importer couldn't read, by index into data
+  unreadableRows?: UnreadableRow[];
+  // Inferred type and value statistics of each column
+  columnProfiles?: ColumnProfile[];
+  // How amounts are written, e.g. "1.234,56", detected on upload or chosen by the user
+  numberFormat?: NumberFormat;
 }
 
+export type KeyNormalizationType =
+  | 'trim'
+  | 'case-fold'
+  | 'alphanumeric'
+  | 'leading-zeros'
+  | 'prefix'
+  | 'suffix'
+  | 'regex';
+
+// One step of the clean-up applied to key values before they are compared. Prefix and suffix
+// steps take the text to remove, regex steps a pattern whose first capture group is kept.
+export interface KeyNormalizationStep {
+  type: KeyNormalizationType;
+  value?: string;
+}
+
+// Columns whose values together identify a transaction on each side, paired by position
 export interface ReconciliationKeyMapping {
-  sourceKey: string;
-  targetKey: string;
+  sourceKeys: string[];
+  targetKeys: string[];
   confidence: number;
+  // Steps applied to every key value of a side, in order
+  sourceNormalization?: KeyNormalizationStep[];
+  targetNormalization?: KeyNormalizationStep[];
+}
+
+// Pairing without a key, for data such as bank lines that don't carry the internal reference:
+// amounts equal up to amountTolerance, dates at most dateWindowDays apart and, when attribute
+// columns are set, the same value in them, e.g. the currency. Without date columns only the
+// amounts are compared.
+export interface AmountDateCriteria {
+  sourceAmountColumn: string;
+  targetAmountColumn: string;
+  amountTolerance: number;
+  sourceDateColumn?: string;
+  targetDateColumn?: string;
+  dateWindowDays: number;
+  sourceAttributeColumn?: string;
+  targetAttributeColumn?: string;
 }
 
 export interface ReconciliationFormula {
@@ -20,6 +75,48 @@ export interface ReconciliationFormula {
   formula: string;
 }
 
+export type FuzzyAlgorithm = 'levenshtein' | 'damerau' | 'jaro-winkler';
+
+// Pairing of keys that don't match exactly, e.g. "PO45821" and "PO45812". Edit distance
+// algorithms allow up to maxDistance edits, Jaro-Winkler needs minSimilarity percent.
+export interface FuzzyMatchOptions {
+  algorithm: FuzzyAlgorithm;
+  maxDistance: number;
+  minSimilarity: number;
+  // Greedy takes the most similar pairs first, optimal maximizes the total similarity
+  assignment: 'greedy' | 'optimal';
+}
+
+interface MatchingRuleBase {
+  id: string;
+  name: string;
+}
+
+// Pairs rows whose keys are equal, after each side's clean-up
+export interface KeyMatchingRule extends MatchingRuleBase {
+  type: 'key';
+  keyMapping: ReconciliationKeyMapping;
+}
+
+// Pairs rows whose keys are close enough
+export interface FuzzyKeyMatchingRule extends MatchingRuleBase {
+  type: 'fuzzy-key';
+  keyMapping: ReconciliationKeyMapping;
+  fuzzy: FuzzyMatchOptions;
+}
+
+// Pairs rows without a key, by amount and date
+export interface AmountDateMatchingRule extends MatchingRuleBase {
+  type: 'amount-date';
+  amountDate: AmountDateCriteria;
+}
+
+// One pass of the matching. Rules run in order and each only sees the rows the earlier rules
+// left unmatched, e.g. exact reference, then normalized reference, then amount and date.
+export type MatchingRule = KeyMatchingRule | FuzzyKeyMatchingRule | AmountDateMatchingRule;
+
+export type MatchingRuleType = MatchingRule['type'];
+
 export interface MatchedTransaction {
   sourceRow: Record<string, string>;
   targetRow: Record<string, string>;
@@ -27,7 +124,17 @@ export interface MatchedTransaction {
   targetValue: number | string;
   difference: number | null;
   key: string;
+  // Whether the values of the pair agree, however the rows were paired
   status: 'matched' | 'value_mismatch';
+  // Name of the matching rule that paired the rows
+  rule: string;
+  // Fuzzy matches only: key similarity in percent, the target key, and the reviewer's decision.
+  // A similarity marks the pair as a fuzzy match.
+  similarity?: number;
+  targetKey?: string;
+  review?: 'accepted';
+  // ISO 8601 date of the source row, or of the target row when the source has none
+  date?: string;
 }
 
 export interface UnmatchedTransaction {
@@ -35,6 +142,8 @@ export interface UnmatchedTransaction {
   row: Record<string, string>;
   key: string;
   reason: string;
+  // ISO 8601 date of the row, read from the first date column of its side
+  date?: string;
 }
 
 export interface ReconciliationSummary {
@@ -46,7 +155,14 @@ export interface ReconciliationSummary {
   totalTargetValue: number;
   totalDifference: number;
   perfectMatches: number;
+  // Pairs whose values differ, fuzzy matches included
   valueMismatches: number;
+  // Fuzzy matches whose values agree
+  fuzzyMatches: number;
+  // Unmatched rows that no matching rule could read, e.g. with a blank amount
+  unreadableTransactions: number;
+  // Pairs made by each matching rule, in the order the rules ran
+  passes: Array<{ rule: string; matched: number }>;
 }
 
 export interface ReconciliationResult {
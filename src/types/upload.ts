@@ -0,0 +1,75 @@
+import { type ExcelWorkbook } from '@/utils/excelUtils';
+import { type ArrayMode } from '@/utils/jsonUtils';
+import { type NumberFormat } from '@/utils/numberFormatUtils';
+import { type DateFormat } from './profile';
+import { type ImportDiagnostics, type UnreadableRow } from './diagnostics';
+
+export type FileFormat = 'csv' | 'fixed-width' | 'excel' | 'camt' | 'mt940' | 'ofx' | 'json';
+
+// A table found in a file that holds several, by raw row index
+export interface TableBlock {
+  title: string;
+  headerRowIndex: number;
+  // Exclusive end of the block
+  endRowIndex: number;
+  headers: string[];
+  rowCount: number;
+}
+
+// The tables of a file together with the complete rows they were found in
+export interface TableBlocks {
+  blocks: TableBlock[];
+  rows: string[][];
+  lineNumbers?: number[];
+  truncated?: boolean;
+}
+
+// A file being configured in the upload step, before it becomes ReconciliationData
+export interface FileData {
+  headers: string[];
+  data: string[][];
+  fileName: string;
+  format: FileFormat;
+  headerRowIndex: number;
+  rowCount: number;
+  columnCount: number;
+  // Text files only
+  delimiter?: string;
+  encoding?: string;
+  // Fixed-width text files only
+  lines?: string[];
+  columnBoundaries?: number[];
+  // Excel workbooks only
+  workbook?: ExcelWorkbook;
+  sheetName?: string;
+  cellRange?: string;
+  // JSON files only
+  arrayMode?: ArrayMode;
+  metadata?: Record<string, string>;
+  numberFormat: NumberFormat;
+  // Date formats chosen by the user, by column name, instead of the detected ones
+  dateFormats?: Record<string, DateFormat>;
+  keyCandidates?: string[];
+  selectedHeaderRowIndex: number;
+  // Column names typed by the user, by column index
+  headerRenames?: Record<number, string>;
+  rawRows: string[][];
+  // 1-based line (or sheet row) of each raw row in the original file, when it isn't index + 1
+  lineNumbers?: number[];
+  // Raw rows an importer with a fixed layout couldn't read, by index into the raw rows
+  unreadableRows?: UnreadableRow[];
+  // The file ended inside a quoted field
+  truncated?: boolean;
+  diagnostics: ImportDiagnostics;
+  // Files with several tables; without selected blocks the whole file is used
+  tables?: TableBlocks;
+  selectedBlocks?: number[];
+}
+
+export interface ParseOptions {
+  layout?: 'delimited' | 'fixed-width';
+  delimiter?: string;
+  encoding?: string;
+  columnBoundaries?: number[];
+  arrayMode?: ArrayMode;
+}
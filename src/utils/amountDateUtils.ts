@@ -0,0 +1,253 @@
+/**
+ * Utility functions for pairing transactions without a key, by amount and date
+ */
+
+import { type AmountDateCriteria, type ReconciliationData } from '@/types/reconciliation';
+import { findDateColumn, getColumnProfile, isDateColumn, parseTypedValue } from './profileUtils';
+import { toDayNumber } from './dateFormatUtils';
+
+// What a row is matched on; amount and day are null when the cell can't be read. Without a
+// date column every row has day 0, so dates never tell rows apart.
+export interface AmountDateItem {
+  amount: number | null;
+  day: number | null;
+  attribute: string;
+}
+
+export interface AmountDatePair {
+  sourceIndex: number;
+  targetIndex: number;
+  // Days between the two dates
+  dayDistance: number;
+}
+
+// Amount columns by how sure the profile is that they hold money
+const AMOUNT_TYPES = ['currency', 'decimal', 'integer'];
+
+const suggestAmountColumn = (data: ReconciliationData): string => {
+  const profiles = data.columnProfiles ?? [];
+  for (const type of AMOUNT_TYPES) {
+    const named = profiles.find(profile => profile.type === type && /amount|value|total/i.test(profile.name));
+    const typed = named ?? profiles.find(profile => profile.type === type);
+    if (typed) return typed.name;
+  }
+  return data.headers[0] ?? '';
+};
+
+// First guess at the columns to match on: the likeliest amount column and the first date column
+// of each side, exact amounts and dates up to three days apart
+export const suggestAmountDateCriteria = (
+  sourceData: ReconciliationData,
+  targetData: ReconciliationData
+): AmountDateCriteria => ({
+  sourceAmountColumn: suggestAmountColumn(sourceData),
+  targetAmountColumn: suggestAmountColumn(targetData),
+  amountTolerance: 0,
+  sourceDateColumn: findDateColumn(sourceData.columnProfiles)?.name ?? '',
+  targetDateColumn: findDateColumn(targetData.columnProfiles)?.name ?? '',
+  dateWindowDays: 3
+});
+
+// Describe the criteria in one line, as the rule shown next to every pair they produce
+export const describeAmountDateCriteria = (criteria: AmountDateCriteria): string => {
+  const hasDates = !!(criteria.sourceDateColumn && criteria.targetDateColumn);
+  const parts = [
+    criteria.amountTolerance > 0 ? `Amount ±${criteria.amountTolerance}` : 'Equal amount',
+    !hasDates ? 'any date' : criteria.dateWindowDays > 0 ? `date ±${criteria.dateWindowDays} days` : 'same date'
+  ];
+  if (criteria.sourceAttributeColumn && criteria.targetAttributeColumn) {
+    parts.push(criteria.sourceAttributeColumn === criteria.targetAttributeColumn
+      ? `same ${criteria.sourceAttributeColumn}`
+      : `same ${criteria.sourceAttributeColumn} / ${criteria.targetAttributeColumn}`);
+  }
+  return parts.join(', ');
+};
+
+// What is wrong with the criteria, or null when they can be used
+export const validateAmountDateCriteria = (
+  criteria: AmountDateCriteria,
+  sourceData: ReconciliationData,
+  targetData: ReconciliationData
+): string | null => {
+  if (!criteria.sourceAmountColumn || !criteria.targetAmountColumn) {
+    return 'Please select the amount columns of both sides';
+  }
+  if (!criteria.sourceDateColumn !== !criteria.targetDateColumn) {
+    return 'Pick the date column on both sides, or on neither to compare amounts only';
+  }
+  if (!criteria.sourceAttributeColumn !== !criteria.targetAttributeColumn) {
+    return 'Pick the column that must also match on both sides, or on neither';
+  }
+
+  const undatedColumns = [
+    { data: sourceData, column: criteria.sourceDateColumn },
+    { data: targetData, column: criteria.targetDateColumn }
+  ].filter(({ data, column }) => column && !isDateColumn(getColumnProfile(data.columnProfiles, column)));
+  if (undatedColumns.length > 0) {
+    return `${undatedColumns.map(({ column }) => column).join(' and ')} doesn't hold dates`;
+  }
+  return null;
+};
+
+// Read the amount, calendar day and attribute of every row of a side. Attributes compare
+// trimmed and case-insensitively, so "eur" and "EUR " are the same currency.
+export const readAmountDateItems = (
+  data: ReconciliationData,
+  amountColumn: string,
+  dateColumn?: string,
+  attributeColumn?: string
+): AmountDateItem[] => {
+  const amountIndex = data.headers.indexOf(amountColumn);
+  const dateIndex = dateColumn ? data.headers.indexOf(dateColumn) : -1;
+  const attributeIndex = attributeColumn ? data.headers.indexOf(attributeColumn) : -1;
+  const amountProfile = getColumnProfile(data.columnProfiles, amountColumn);
+  const dateProfile = getColumnProfile(data.columnProfiles, dateColumn);
+
+  return data.data.map(row => {
+    const amount = amountIndex === -1 ? null : parseTypedValue(row[amountIndex] ?? '', amountProfile, data.numberFormat);
+    const day = !dateColumn
+      ? 0
+      : dateIndex === -1 || !isDateColumn(dateProfile) ? null : toDayNumber(row[dateIndex] ?? '', dateProfile.dateFormat);
+    return {
+      amount: typeof amount === 'number' ? amount : null,
+      day: day === null ? null : Math.floor(day),
+      attribute: attributeIndex === -1 ? '' : (row[attributeIndex] ?? '').trim().toUpperCase()
+    };
+  });
+};
+
+// Target rows of one attribute, day and amount, lowest row first. The pairing only ever takes
+// the lowest row still free, so the rows before `next` are taken.
+interface TargetGroup {
+  indices: number[];
+  next: number;
+}
+
+// Target groups of one attribute and day, with their amounts sorted for range lookups
+interface TargetDay {
+  amounts: number[];
+  groups: Map<number, TargetGroup>;
+}
+
+// Source rows of one attribute and day, in row order
+interface SourceDay {
+  attribute: string;
+  day: number;
+  indices: number[];
+}
+
+const dayKey = (attribute: string, day: number) => `${attribute}\u0000${day}`;
+
+// Pair source and target items one to one. Among the candidates within the tolerances, the
+// pairs with the nearest dates are taken first, then the closest amounts, then row order, so
+// the same data always gives the same pairs. Rows with the same attribute, day and amount
+// are queued together instead of being paired with every row of the other side, so files with
+// many repeated amounts don't build a candidate for every source and target combination.
+export const findAmountDatePairs = (
+  sourceItems: AmountDateItem[],
+  targetItems: AmountDateItem[],
+  criteria: AmountDateCriteria
+): AmountDatePair[] => {
+  const targetDays = new Map<string, TargetDay>();
+  let firstDay = Infinity;
+  let lastDay = -Infinity;
+  targetItems.forEach((item, index) => {
+    if (item.amount === null || item.day === null) return;
+    const key = dayKey(item.attribute, item.day);
+    let targetDay = targetDays.get(key);
+    if (!targetDay) {
+      targetDay = { amounts: [], groups: new Map() };
+      targetDays.set(key, targetDay);
+    }
+    let group = targetDay.groups.get(item.amount);
+    if (!group) {
+      group = { indices: [], next: 0 };
+      targetDay.groups.set(item.amount, group);
+      targetDay.amounts.push(item.amount);
+    }
+    group.indices.push(index);
+    firstDay = Math.min(firstDay, item.day);
+    lastDay = Math.max(lastDay, item.day);
+  });
+  targetDays.forEach(targetDay => targetDay.amounts.sort((a, b) => a - b));
+
+  const sourceDays = new Map<string, SourceDay>();
+  sourceItems.forEach((item, index) => {
+    if (item.amount === null || item.day === null) return;
+    const key = dayKey(item.attribute, item.day);
+    const sourceDay = sourceDays.get(key) ?? { attribute: item.attribute, day: item.day, indices: [] };
+    sourceDay.indices.push(index);
+    sourceDays.set(key, sourceDay);
+    firstDay = Math.min(firstDay, item.day);
+    lastDay = Math.max(lastDay, item.day);
+  });
+
+  const tolerance = criteria.amountTolerance + 1e-9;
+  const maxDayDistance = Math.min(criteria.dateWindowDays, lastDay - firstDay);
+  const pairedSources = new Set<number>();
+  const pairs: AmountDatePair[] = [];
+  let candidateCount = 0;
+
+  // One round per distance between the dates, nearest first
+  for (let dayDistance = 0; dayDistance <= maxDayDistance; dayDistance++) {
+    const candidates: Array<{ sourceIndex: number; amountDistance: number; group: TargetGroup }> = [];
+    sourceDays.forEach(({ attribute, day, indices }) => {
+      const days = dayDistance === 0 ? [day] : [day - dayDistance, day + dayDistance];
+      days.forEach(targetDayNumber => {
+        const targetDay = targetDays.get(dayKey(attribute, targetDayNumber));
+        if (!targetDay) return;
+
+        indices.forEach(sourceIndex => {
+          if (pairedSources.has(sourceIndex)) return;
+          const amount = sourceItems[sourceIndex].amount!;
+
+          // First amount at or above the lower bound
+          let low = 0;
+          let high = targetDay.amounts.length;
+          while (low < high) {
+            const middle = (low + high) >> 1;
+            if (targetDay.amounts[middle] < amount - tolerance) low = middle + 1;
+            else high = middle;
+          }
+
+          for (let i = low; i < targetDay.amounts.length && targetDay.amounts[i] <= amount + tolerance; i++) {
+            const group = targetDay.groups.get(targetDay.amounts[i])!;
+            if (group.next === group.indices.length) continue;
+            candidates.push({ sourceIndex, amountDistance: Math.abs(targetDay.amounts[i] - amount), group });
+          }
+        });
+      });
+    });
+    candidateCount += candidates.length;
+
+    candidates.sort((a, b) => a.amountDistance - b.amountDistance || a.sourceIndex - b.sourceIndex);
+
+    // Candidates of one source at the same amount distance compete on the row of the target
+    // they would take, which is only known once the earlier candidates have been paired
+    for (let start = 0; start < candidates.length;) {
+      const { sourceIndex, amountDistance } = candidates[start];
+      let end = start;
+      let best: TargetGroup | null = null;
+      while (
+        end < candidates.length &&
+        candidates[end].sourceIndex === sourceIndex &&
+        candidates[end].amountDistance === amountDistance
+      ) {
+        const { group } = candidates[end];
+        if (group.next < group.indices.length && (!best || group.indices[group.next] < best.indices[best.next])) {
+          best = group;
+        }
+        end++;
+      }
+      start = end;
+
+      if (!best || pairedSources.has(sourceIndex)) continue;
+      pairedSources.add(sourceIndex);
+      pairs.push({ sourceIndex, targetIndex: best.indices[best.next], dayDistance });
+      best.next++;
+    }
+  }
+
+  console.log(`Amount and date matching paired ${pairs.length} of ${sourceItems.length} source rows from ${candidateCount} candidates`);
+  return pairs.sort((a, b) => a.sourceIndex - b.sourceIndex);
+};
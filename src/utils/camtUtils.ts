@@ -0,0 +1,191 @@
+/**
+ * Utility functions for importing ISO 20022 camt.053 / camt.054 bank statements
+ */
+
+import { type ReconciliationData } from '@/types/reconciliation';
+
+export const CAMT_HEADERS = [
+  'Booking Date',
+  'Value Date',
+  'Amount',
+  'Currency',
+  'Credit/Debit',
+  'End-to-End ID',
+  'Remittance Info',
+  'Counterparty'
+];
+
+// Check whether a file could be a camt statement (confirmed when parsing)
+export const isCamtFile = (file: File): boolean => {
+  return /\.(xml|camt|053|054)$/i.test(file.name);
+};
+
+// camt files use a versioned default namespace, so elements are matched by local name
+const childElements = (parent: Element, name: string): Element[] => {
+  return Array.from(parent.children).filter(child => child.localName === name);
+};
+
+// Follow a path of local names such as "BookgDt/Dt" and return the first match
+const findElement = (parent: Element | null | undefined, path: string): Element | null => {
+  let current: Element | null = parent ?? null;
+  for (const name of path.split('/')) {
+    if (!current) return null;
+    current = childElements(current, name)[0] ?? null;
+  }
+  return current;
+};
+
+const findText = (parent: Element | null | undefined, ...paths: string[]): string => {
+  for (const path of paths) {
+    const text = findElement(parent, path)?.textContent?.trim();
+    if (text) return text;
+  }
+  return '';
+};
+
+// Dates come either as <Dt> or <DtTm>
+const findDate = (parent: Element | null | undefined, path: string): string => {
+  return findText(parent, `${path}/Dt`, `${path}/DtTm`);
+};
+
+// Party names moved under <Pty> in camt.053 version 8 and later
+const findPartyName = (relatedParties: Element | null, role: string): string => {
+  return findText(relatedParties, `${role}/Nm`, `${role}/Pty/Nm`);
+};
+
+const findRemittanceInfo = (transaction: Element | null, entry: Element): string => {
+  const remittance = findElement(transaction, 'RmtInf');
+  if (remittance) {
+    const unstructured = childElements(remittance, 'Ustrd')
+      .map(el => el.textContent?.trim() ?? '')
+      .filter(Boolean);
+    if (unstructured.length > 0) return unstructured.join(' ');
+
+    const reference = childElements(remittance, 'Strd')
+      .map(el => findText(el, 'CdtrRefInf/Ref'))
+      .filter(Boolean);
+    if (reference.length > 0) return reference.join(' ');
+  }
+
+  return findText(transaction, 'AddtlTxInf') || findText(entry, 'AddtlNtryInf');
+};
+
+// Flatten an entry into one row per transaction detail, or a single row if it has none
+const flattenEntry = (entry: Element): string[][] => {
+  const transactions = childElements(entry, 'NtryDtls').flatMap(details => childElements(details, 'TxDtls'));
+  const bookingDate = findDate(entry, 'BookgDt');
+  const valueDate = findDate(entry, 'ValDt');
+
+  const toRow = (transaction: Element | null): string[] => {
+    const amountElement =
+      findElement(transaction, 'Amt') ??
+      findElement(transaction, 'AmtDtls/TxAmt/Amt') ??
+      findElement(entry, 'Amt');
+    const creditDebit = findText(transaction, 'CdtDbtInd') || findText(entry, 'CdtDbtInd');
+
+    // For incoming money the counterparty is the debtor, for outgoing money the creditor
+    const relatedParties = findElement(transaction, 'RltdPties');
+    const counterparty = creditDebit === 'CRDT'
+      ? findPartyName(relatedParties, 'Dbtr')
+      : findPartyName(relatedParties, 'Cdtr');
+
+    return [
+      bookingDate,
+      valueDate,
+      amountElement?.textContent?.trim() ?? '',
+      amountElement?.getAttribute('Ccy') ?? '',
+      creditDebit,
+      findText(transaction, 'Refs/EndToEndId'),
+      findRemittanceInfo(transaction, entry),
+      counterparty
+    ];
+  };
+
+  return transactions.length > 0 ? transactions.map(toRow) : [toRow(null)];
+};
+
+// Format a balance as a signed amount with its currency, e.g. "-1250.00 EUR"
+const formatBalance = (balance: Element): string => {
+  const amountElement = findElement(balance, 'Amt');
+  const amount = amountElement?.textContent?.trim() ?? '';
+  const sign = findText(balance, 'CdtDbtInd') === 'DBIT' ? '-' : '';
+  const currency = amountElement?.getAttribute('Ccy') ?? '';
+  return `${sign}${amount}${currency ? ` ${currency}` : ''}`;
+};
+
+// Collect the statement-level attributes, including opening and closing balances
+const extractStatementMetadata = (statement: Element): Record<string, string> => {
+  const metadata: Record<string, string> = {};
+  const add = (key: string, value: string) => {
+    if (value) metadata[key] = value;
+  };
+
+  add('Statement ID', findText(statement, 'Id'));
+  add('Account', findText(statement, 'Acct/Id/IBAN', 'Acct/Id/Othr/Id'));
+  add('Account Currency', findText(statement, 'Acct/Ccy'));
+  add('Created', findText(statement, 'CreDtTm'));
+
+  const fromDate = findText(statement, 'FrToDt/FrDtTm');
+  const toDate = findText(statement, 'FrToDt/ToDtTm');
+  if (fromDate || toDate) add('Period', `${fromDate} – ${toDate}`);
+
+  childElements(statement, 'Bal').forEach(balance => {
+    const code = findText(balance, 'Tp/CdOrPrtry/Cd', 'Tp/CdOrPrtry/Prtry');
+    const balanceDate = findDate(balance, 'Dt');
+    const value = `${formatBalance(balance)}${balanceDate ? ` (${balanceDate})` : ''}`;
+
+    // The previously closed balance stands in for the opening balance if there is none
+    if (code === 'OPBD' || (code === 'PRCD' && !metadata['Opening Balance'])) {
+      add('Opening Balance', value);
+    } else if (code === 'CLBD') {
+      add('Closing Balance', value);
+    } else if (code === 'CLAV') {
+      add('Closing Available Balance', value);
+    }
+  });
+
+  return metadata;
+};
+
+// Parse a camt.053 (<Stmt>), camt.052 (<Rpt>) or camt.054 (<Ntfctn>) document into a dataset
+// with fixed columns. Statement attributes and balances are kept as dataset metadata.
+export const parseCamtStatement = (xml: string, fileName: string): ReconciliationData => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`${fileName} is not a valid XML file`);
+  }
+
+  const statements = ['Stmt', 'Rpt', 'Ntfctn']
+    .flatMap(name => Array.from(document.getElementsByTagNameNS('*', name)));
+  if (statements.length === 0) {
+    throw new Error(`${fileName} doesn't contain a camt statement, report or notification`);
+  }
+
+  const data: string[][] = [];
+  const metadata: Record<string, string> = {};
+
+  statements.forEach((statement, index) => {
+    childElements(statement, 'Ntry').forEach(entry => {
+      data.push(...flattenEntry(entry));
+    });
+
+    // Files with several statements get their attributes labelled per statement
+    const statementMetadata = extractStatementMetadata(statement);
+    const label = statements.length > 1 ? ` (${statementMetadata['Statement ID'] || index + 1})` : '';
+    Object.entries(statementMetadata).forEach(([key, value]) => {
+      metadata[`${key}${label}`] = value;
+    });
+  });
+
+  console.log(`Parsed camt file with ${statements.length} statements and ${data.length} entries`);
+
+  return {
+    headers: [...CAMT_HEADERS],
+    data,
+    fileName,
+    headerRowIndex: 0,
+    rowCount: data.length,
+    columnCount: CAMT_HEADERS.length,
+    metadata
+  };
+};
@@ -0,0 +1,46 @@
+/**
+ * Utility functions for importing tables pasted from spreadsheets and web pages
+ */
+
+import { formatDelimitedText } from './csvUtils';
+
+// Marks a <br> while the layout whitespace of the HTML source is collapsed
+const LINE_BREAK_MARKER = '\u0001';
+
+// Read the cells of the first table in an HTML fragment. A cell spanning several columns is
+// followed by empty cells so the columns stay aligned.
+export const parseHTMLTable = (html: string): string[][] | null => {
+  const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table');
+  if (!table) return null;
+
+  // Spreadsheets write line breaks in a cell as <br>
+  table.querySelectorAll('br').forEach(br => br.replaceWith(LINE_BREAK_MARKER));
+
+  const rows = Array.from(table.querySelectorAll('tr')).map(tr => {
+    const cells: string[] = [];
+    Array.from(tr.querySelectorAll('th, td')).forEach(cell => {
+      const text = (cell.textContent ?? '').replace(/\s+/g, ' ');
+      cells.push(text.split(LINE_BREAK_MARKER).map(line => line.trim()).join('\n').trim());
+      const span = parseInt(cell.getAttribute('colspan') ?? '1', 10);
+      for (let extra = 1; extra < span; extra++) cells.push('');
+    });
+    return cells;
+  });
+
+  return rows.length > 0 ? rows : null;
+};
+
+// The pasted table as tab-separated text, taken from its HTML when the source offers it (web
+// portals often only put a table there) and from the plain text otherwise
+export const readClipboardTable = (clipboardData: DataTransfer): string | null => {
+  const html = clipboardData.getData('text/html');
+  const rows = html ? parseHTMLTable(html) : null;
+  if (rows) return formatDelimitedText(rows, '\t');
+
+  return clipboardData.getData('text/plain') || null;
+};
+
+// Wrap pasted text in a file so it goes through the same parsing as an upload
+export const createPastedFile = (text: string, fileName: string): File => {
+  return new File([text], fileName, { type: 'text/tab-separated-values' });
+};
@@ -0,0 +1,191 @@
+/**
+ * Streaming CSV tokenizer shared by the main thread and the parser worker
+ */
+
+// Delimiters we can detect and that users can pick manually
+export const DELIMITERS: Array<{ value: string; label: string }> = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+// Create a tokenizer that turns CSV text into rows of cells (RFC 4180) as it arrives.
+// Quoted fields may contain delimiters, escaped ("") quotes and line breaks; CRLF, LF
+// and CR all end a record. Unquoted cells are trimmed, quoted cells keep their inner
+// whitespace. State is kept between chunks, so a record may span several push() calls.
+// The line each record starts on is tracked so problems can be reported by line number.
+export const createCSVTokenizer = (delimiter: string = ',') => {
+  let rows: string[][] = [];
+  let lineNumbers: number[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let wasQuoted = false;
+  // A quote seen inside a quoted field: either an escaped quote or the closing one
+  let pendingQuote = false;
+  // A CR just ended a record, so an LF right after it belongs to the same line break
+  let pendingCR = false;
+  // Line breaks seen so far, including those inside quoted fields
+  let lineBreaks = 0;
+  let lastChar = '';
+  let recordStartLine = 1;
+  // The input ended inside a quoted field, so the last record is cut off
+  let truncated = false;
+
+  const endField = () => {
+    row.push(wasQuoted ? field : field.trim());
+    field = '';
+    wasQuoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    rows.push(row);
+    lineNumbers.push(recordStartLine);
+    row = [];
+    recordStartLine = lineBreaks + 1;
+  };
+
+  const takeRows = () => {
+    const completed = rows;
+    rows = [];
+    return completed;
+  };
+
+  // Get the 1-based line numbers where the records returned so far started, in the same
+  // order as the rows, and forget them
+  const takeLineNumbers = (): number[] => {
+    const completed = lineNumbers;
+    lineNumbers = [];
+    return completed;
+  };
+
+  // Feed the next chunk of text and get back the records it completed
+  const push = (text: string): string[][] => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // CRLF counts as a single line break
+      if (char === '\r' || (char === '\n' && lastChar !== '\r')) lineBreaks++;
+      lastChar = char;
+
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          // Escaped quote inside a quoted field
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === delimiter) {
+        endField();
+      } else if (char === '\r' || char === '\n') {
+        endRecord();
+        pendingCR = char === '\r';
+      } else if (char === '"' && !wasQuoted && field.trim() === '') {
+        // Opening quote, possibly after insignificant leading whitespace
+        inQuotes = true;
+        wasQuoted = true;
+        field = '';
+      } else if (wasQuoted && (char === ' ' || char === '\t')) {
+        // Ignore whitespace between a closing quote and the next delimiter
+        continue;
+      } else {
+        field += char;
+      }
+    }
+
+    return takeRows();
+  };
+
+  // Signal the end of the input and get back the last record, if any
+  const flush = (): string[][] => {
+    // Flush the last record when the text doesn't end with a line break
+    if (field !== '' || wasQuoted || row.length > 0) {
+      // A closing quote right at the end of the input still closes the field
+      truncated = inQuotes && !pendingQuote;
+      endRecord();
+    }
+    inQuotes = false;
+    pendingQuote = false;
+    pendingCR = false;
+
+    return takeRows();
+  };
+
+  return { push, flush, takeLineNumbers, isTruncated: () => truncated };
+};
+
+// Tokenize a complete CSV text into rows of cells
+export const parseCSVRows = (text: string, delimiter: string = ','): string[][] => {
+  const tokenizer = createCSVTokenizer(delimiter);
+  return [...tokenizer.push(text), ...tokenizer.flush()];
+};
+
+// Check whether a tokenized row has no content at all
+export const isBlankRow = (row: string[]): boolean => {
+  return row.every(cell => cell.trim() === '');
+};
+
+// Guess the delimiter by how consistent the column counts are across the first rows
+export const detectDelimiter = (text: string, sampleRows: number = 20): string => {
+  // Only look at the start of the file, large files don't need a full tokenization
+  const sample = text.slice(0, 64 * 1024);
+
+  let bestDelimiter = ',';
+  let bestScore = 0;
+  let bestColumnCount = 0;
+
+  DELIMITERS.forEach(({ value: delimiter }) => {
+    const rows = parseCSVRows(sample, delimiter)
+      .filter(row => !isBlankRow(row))
+      .slice(0, sampleRows);
+    if (rows.length === 0) return;
+
+    // Find the most common column count
+    const countFrequency = new Map<number, number>();
+    rows.forEach(row => {
+      countFrequency.set(row.length, (countFrequency.get(row.length) || 0) + 1);
+    });
+
+    let modeColumnCount = 0;
+    let modeFrequency = 0;
+    countFrequency.forEach((frequency, columnCount) => {
+      if (frequency > modeFrequency || (frequency === modeFrequency && columnCount > modeColumnCount)) {
+        modeColumnCount = columnCount;
+        modeFrequency = frequency;
+      }
+    });
+
+    // A delimiter that never splits a row can't be the right one
+    if (modeColumnCount < 2) return;
+
+    // Share of rows agreeing on the column count, ties go to the delimiter producing more columns
+    const score = modeFrequency / rows.length;
+    if (score > bestScore || (score === bestScore && modeColumnCount > bestColumnCount)) {
+      bestDelimiter = delimiter;
+      bestScore = score;
+      bestColumnCount = modeColumnCount;
+    }
+  });
+
+  console.log('Detected delimiter:', JSON.stringify(bestDelimiter), 'with consistency:', bestScore);
+  return bestDelimiter;
+};
@@ -3,28 +3,41 @@
  * Utility functions for parsing and handling CSV files
  */
 
+import { createCSVTokenizer, isBlankRow } from './csvTokenizer';
+import { diagnoseRows, resolveDataRows, type DiagnoseOptions } from './diagnosticsUtils';
+import { DATE_TYPES, getColumnProfile, getColumnType, isDateColumn, parseTypedValue } from './profileUtils';
+import { type NumberFormat } from './numberFormatUtils';
+import { PROVENANCE_COLUMN } from './mergeUtils';
+import { buildKeyMap, buildRowKey, collectKeys, combinations, formatKeyColumns, getKeyIndices, permutations } from './keyUtils';
+import { createKeyNormalizer } from './normalizationUtils';
+import { type ImportDiagnostics } from '@/types/diagnostics';
+import { type ColumnProfile } from '@/types/profile';
+import { type KeyNormalizationStep } from '@/types/reconciliation';
+import { type ParseWorkerMessage, type ParseWorkerRequest } from '@/workers/csvParser.worker';
+
+export { DELIMITERS, parseCSVRows, isBlankRow, detectDelimiter } from './csvTokenizer';
+
 // Detect the most likely header row in a CSV file with potential metadata
-const detectHeaderRow = (lines: string[]): number => {
+export const detectHeaderRow = (rows: string[][]): number => {
   // Skip empty lines at the beginning
   let startIndex = 0;
-  while (startIndex < lines.length && lines[startIndex].trim() === '') {
+  while (startIndex < rows.length && isBlankRow(rows[startIndex])) {
     startIndex++;
   }
   
   // If the file has fewer than 5 lines, assume the first non-empty line is the header
-  if (lines.length < 5) {
+  if (rows.length < 5) {
     return startIndex;
   }
   
   // Score system for finding the most likely header row
   const rowScores: number[] = [];
   
-  for (let i = startIndex; i < Math.min(startIndex + 20, lines.length); i++) {
-    const line = lines[i];
-    const cells = line.split(',').map(cell => cell.trim());
+  for (let i = startIndex; i < Math.min(startIndex + 20, rows.length); i++) {
+    const cells = rows[i];
     
     // Empty rows get low scores
-    if (cells.every(cell => cell === '')) {
+    if (isBlankRow(cells)) {
       rowScores.push(-10);
       continue;
     }
@@ -56,8 +69,8 @@ const detectHeaderRow = (lines: string[]): number => {
     
     // 5. Check if next few rows after this one have similar structure
     // This helps identify table headers in files with multiple tables
-    if (i + 1 < lines.length) {
-      const nextRowCells = lines[i + 1].split(',').map(cell => cell.trim());
+    if (i + 1 < rows.length) {
+      const nextRowCells = rows[i + 1];
       // If next row has the same number of cells, it might be a data row
       if (nextRowCells.length === cells.length) {
         score += 10;
@@ -88,45 +101,173 @@ const detectHeaderRow = (lines: string[]): number => {
 
 // Find common structure between two CSV files
 const findCommonStructure = (
-  sourceLines: string[], 
-  targetLines: string[]
+  sourceRows: string[][], 
+  targetRows: string[][]
 ): { sourceHeaderIndex: number; targetHeaderIndex: number } => {
-  const sourceHeaderIndex = detectHeaderRow(sourceLines);
-  const targetHeaderIndex = detectHeaderRow(targetLines);
+  const sourceHeaderIndex = detectHeaderRow(sourceRows);
+  const targetHeaderIndex = detectHeaderRow(targetRows);
   
   return { sourceHeaderIndex, targetHeaderIndex };
 };
 
-// Parse a CSV file and extract headers and data, handling complex structures
-export const parseCSVFile = async (file: File): Promise<{
+// Split raw rows into headers and data, detecting where the header row is.
+// Every importer goes through this so header detection behaves the same for all formats.
+// Rows that don't match the header are left out and reported in the diagnostics.
+export const extractTable = (
+  rawRows: string[][],
+  options: DiagnoseOptions = {}
+): {
   headers: string[];
   data: string[][];
   headerRowIndex: number;
-}> => {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
+  diagnostics: ImportDiagnostics;
+} => {
+  // Detect the most likely header row
+  const headerRowIndex = detectHeaderRow(rawRows);
+  
+  // Extract headers from the detected header row
+  const headers = rawRows[headerRowIndex] ?? [];
+  
+  // Extract data rows (all rows after the header), leaving out the ones that don't fit
+  const diagnostics = diagnoseRows(rawRows, headerRowIndex, options);
+  const data = resolveDataRows(rawRows, headerRowIndex, diagnostics);
+  
+  return { headers, data, headerRowIndex, diagnostics };
+};
+
+// Progress reported while a file is being parsed
+export interface ParseProgress {
+  bytesProcessed: number;
+  totalBytes: number;
+  rowsProcessed: number;
+}
+
+// A file read as delimited text
+export interface ParsedCSV {
+  headers: string[];
+  data: string[][];
+  headerRowIndex: number;
+  rawRows: string[][];
+  lineNumbers: number[];
+  truncated: boolean;
+  diagnostics: ImportDiagnostics;
+  delimiter: string;
+  encoding: string;
+}
+
+// Tokenize lines that were read as they are, e.g. when a file turned out not to be fixed-width
+export const parseCSVLines = (lines: string[], delimiter: string, encoding: string): ParsedCSV => {
+  const tokenizer = createCSVTokenizer(delimiter);
+  const rawRows = [...tokenizer.push(lines.join('\n')), ...tokenizer.flush()];
+  const lineNumbers = tokenizer.takeLineNumbers();
+  const truncated = tokenizer.isTruncated();
+  
+  return { ...extractTable(rawRows, { lineNumbers, truncated }), rawRows, lineNumbers, truncated, delimiter, encoding };
+};
+
+// Parse a CSV file and extract headers and data, handling complex structures.
+// The file is read in chunks by a Web Worker; pass a delimiter or encoding to override
+// auto-detection, and an AbortSignal to cancel (the promise then rejects with an AbortError).
+// With detectFixedWidth, a file the delimiter doesn't split comes back as its untouched lines.
+export const parseCSVFile = async (
+  file: File,
+  options: { delimiter?: string; encoding?: string; detectFixedWidth?: boolean } = {},
+  callbacks: { onProgress?: (progress: ParseProgress) => void; signal?: AbortSignal } = {}
+): Promise<ParsedCSV | { lines: string[]; delimiter: string; encoding: string }> => {
+  return new Promise((resolve, reject) => {
+    const { onProgress, signal } = callbacks;
+    if (signal?.aborted) {
+      reject(new DOMException('Parsing cancelled', 'AbortError'));
+      return;
+    }
     
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const lines = text.split("\n");
-      
-      // Detect the most likely header row
-      const headerRowIndex = detectHeaderRow(lines);
-      
-      // Extract headers from the detected header row
-      const headers = lines[headerRowIndex].split(",").map(header => header.trim());
-      
-      // Extract data rows (all rows after the header)
-      const data = lines.slice(headerRowIndex + 1)
-        .map(line => line.split(",").map(cell => cell.trim()))
-        .filter(row => row.length === headers.length && row.some(cell => cell.trim() !== '')); // Ensure complete non-empty rows
-      
-      console.log(`Parsed CSV with ${headers.length} headers and ${data.length} data rows`);
+    const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url), { type: 'module' });
+    const rawRows: string[][] = [];
+    const lineNumbers: number[] = [];
+    const lines: string[] = [];
+    
+    const handleAbort = () => {
+      worker.terminate();
+      reject(new DOMException('Parsing cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+    
+    worker.onmessage = (e: MessageEvent<ParseWorkerMessage>) => {
+      const message = e.data;
       
-      resolve({ headers, data, headerRowIndex });
+      switch (message.type) {
+        case 'rows':
+          // Avoid spreading huge batches into push(), which can overflow the call stack
+          for (let i = 0; i < message.rows.length; i++) {
+            rawRows.push(message.rows[i]);
+            lineNumbers.push(message.lineNumbers[i]);
+          }
+          break;
+          
+        case 'lines':
+          for (let i = 0; i < message.lines.length; i++) {
+            lines.push(message.lines[i]);
+          }
+          break;
+          
+        case 'progress':
+          onProgress?.(message);
+          break;
+          
+        case 'done': {
+          finish();
+          
+          if (message.fixedWidth) {
+            console.log(`Read ${lines.length} lines that ${JSON.stringify(message.delimiter)} doesn't split`);
+            resolve({ lines, delimiter: message.delimiter, encoding: message.encoding });
+            break;
+          }
+          
+          const { headers, data, headerRowIndex, diagnostics } = extractTable(rawRows, {
+            lineNumbers,
+            truncated: message.truncated
+          });
+          
+          console.log(`Parsed CSV with ${headers.length} headers and ${data.length} data rows`);
+          
+          resolve({
+            headers,
+            data,
+            headerRowIndex,
+            rawRows,
+            lineNumbers,
+            truncated: message.truncated,
+            diagnostics,
+            delimiter: message.delimiter,
+            encoding: message.encoding
+          });
+          break;
+        }
+          
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
     };
     
-    reader.readAsText(file);
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'Failed to parse file'));
+    };
+    
+    worker.onmessageerror = () => {
+      finish();
+      reject(new Error('Failed to read the parsed rows from the worker'));
+    };
+    
+    const request: ParseWorkerRequest = { file, ...options };
+    worker.postMessage(request);
   });
 };
 
@@ -135,111 +276,236 @@ export const getCSVPreview = (headers: string[], data: string[][]): string[][] =
   return [headers, ...data.slice(0, 5)];
 };
 
-// Convert a parsed CSV object to a downloadable blob
-export const createCSVBlob = (headers: string[], data: string[][]): Blob => {
-  const csvContent = [
-    headers.join(","),
-    ...data.map(row => row.join(","))
-  ].join("\n");
+// Write rows as delimited text that parses back into the same cells
+export const formatDelimitedText = (rows: string[][], delimiter: string = ','): string => {
+  // Quote cells that would otherwise be split or merged when read back
+  const escapeCell = (cell: string) => 
+    cell.includes(delimiter) || /["\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
   
-  return new Blob([csvContent], { type: "text/csv" });
+  return rows.map(row => row.map(escapeCell).join(delimiter)).join("\n");
+};
+
+// Convert a parsed CSV object to a downloadable blob
+export const createCSVBlob = (headers: string[], data: string[][], delimiter: string = ','): Blob => {
+  const csvContent = formatDelimitedText([headers, ...data], delimiter);
+  return new Blob([csvContent], { type: delimiter === '\t' ? "text/tab-separated-values" : "text/csv" });
 };
 
-// Detect potential unique identifiers in CSV data
-export const detectUniqueKeys = (headers: string[], data: string[][]): string[] => {
-  const uniqueKeys: string[] = [];
+// Largest number of columns combined into a key, and how many combinations are offered
+const MAX_KEY_COLUMNS = 3;
+const MAX_COMPOSITE_KEYS = 5;
+// Columns tried in combinations, and rows they are checked on, to bound the search
+const MAX_COMBINATION_COLUMNS = 12;
+const COMBINATION_SAMPLE_SIZE = 5000;
+const UNIQUENESS_THRESHOLD = 0.95;
+
+// Share of the rows whose key is distinct; rows without any key value count as duplicates
+const measureUniqueness = (data: string[][], keyIndices: number[], normalize: (value: string) => string): number => {
+  if (data.length === 0) return 0;
+  return collectKeys(data, keyIndices, normalize).size / data.length;
+};
+
+// Detect potential unique identifiers in CSV data, as lists of key columns.
+// Key candidates (columns an importer knows to be unique, such as OFX's FITID) come first,
+// then columns profiled as identifiers. Amounts, dates and flags are never keys on their own.
+// When few single columns qualify, small combinations that are unique together follow, such as
+// invoice number + line number or account + date + reference. Values are compared after the
+// key normalization, which can make two references the same.
+export const detectUniqueKeys = (
+  headers: string[],
+  data: string[][],
+  keyCandidates: string[] = [],
+  columnProfiles: ColumnProfile[] = [],
+  normalization: KeyNormalizationStep[] = []
+): string[][] => {
+  const normalize = createKeyNormalizer(normalization);
+  const uniqueKeys: string[] = keyCandidates.filter(candidate => headers.includes(candidate));
+  const typedKeys: string[] = [];
+  // Columns that may be part of a combination, with their distinct value count
+  const combinable: Array<{ header: string; distinct: number }> = [];
   
   headers.forEach((header, index) => {
+    if (uniqueKeys.includes(header) || header === PROVENANCE_COLUMN) return;
+    
+    const type = getColumnType(columnProfiles, header);
+    // Amounts and flags never identify a transaction, not even in combination
+    if (type && (type === 'boolean' || type === 'decimal' || type === 'currency')) {
+      return;
+    }
+    
+    // Extract all values for this column
+    const columnValues = data.map(row => normalize(row[index] ?? ''));
+    const uniqueValues = new Set(columnValues);
+    if (uniqueValues.size > 1) {
+      combinable.push({ header, distinct: uniqueValues.size });
+    }
+    
     // Skip very small column names or generic-sounding ones
     if (header.length < 2 || ['id', 'no', 'num', '#'].includes(header.toLowerCase())) {
       return;
     }
     
-    // Extract all values for this column
-    const columnValues = data.map(row => row[index]);
+    // Dates are shared by many transactions and only help in combination
+    if (type && DATE_TYPES.includes(type)) return;
     
     // Check if all values are present and unique
     const hasEmptyValues = columnValues.some(value => !value || value.trim() === '');
     if (hasEmptyValues) return;
     
-    // Check for duplicates
-    const uniqueValues = new Set(columnValues);
-    
     // If all values are unique or almost unique (>95%), consider it a potential key
     const uniquenessRatio = uniqueValues.size / columnValues.length;
-    if (uniquenessRatio > 0.95) {
-      uniqueKeys.push(header);
+    if (uniquenessRatio > UNIQUENESS_THRESHOLD) {
+      (type === 'identifier' ? typedKeys : uniqueKeys).push(header);
     }
   });
 
-  return uniqueKeys;
+  // Identifiers go after the key candidates but before other unique columns
+  const candidateCount = keyCandidates.filter(candidate => headers.includes(candidate)).length;
+  uniqueKeys.splice(candidateCount, 0, ...typedKeys);
+  
+  const singleKeys = uniqueKeys.map(key => [key]);
+  if (singleKeys.length >= MAX_COMPOSITE_KEYS) return singleKeys;
+  return [...singleKeys, ...detectCompositeKeys(headers, data, combinable, uniqueKeys, normalize)];
+};
+
+// Find the smallest column combinations that are unique together, best first. Columns with the
+// most distinct values are tried, on a sample of the rows, and the winners are checked on all rows.
+const detectCompositeKeys = (
+  headers: string[],
+  data: string[][],
+  combinable: Array<{ header: string; distinct: number }>,
+  singleKeys: string[],
+  normalize: (value: string) => string
+): string[][] => {
+  // A combination holding a unique column isn't minimal
+  const columns = combinable
+    .filter(column => !singleKeys.includes(column.header))
+    .sort((a, b) => b.distinct - a.distinct)
+    .slice(0, MAX_COMBINATION_COLUMNS)
+    .map(column => column.header);
+  const sample = data.slice(0, COMBINATION_SAMPLE_SIZE);
+  
+  const found: Array<{ columns: string[]; uniqueness: number }> = [];
+  for (let size = 2; size <= MAX_KEY_COLUMNS && found.length < MAX_COMPOSITE_KEYS; size++) {
+    combinations(columns, size).forEach(combination => {
+      // Skip supersets of a combination that is already unique
+      if (found.some(key => key.columns.every(column => combination.includes(column)))) return;
+      
+      const keyIndices = combination.map(column => headers.indexOf(column));
+      const sampleUniqueness = measureUniqueness(sample, keyIndices, normalize);
+      if (sampleUniqueness <= UNIQUENESS_THRESHOLD) return;
+      
+      const uniqueness = sample.length < data.length ? measureUniqueness(data, keyIndices, normalize) : sampleUniqueness;
+      if (uniqueness > UNIQUENESS_THRESHOLD) {
+        found.push({ columns: combination, uniqueness });
+      }
+    });
+  }
+  
+  if (found.length > 0) {
+    console.log('Composite key candidates:', found.map(key => `${formatKeyColumns(key.columns)} (${Math.round(key.uniqueness * 100)}%)`).join(', '));
+  }
+  
+  // Fully unique combinations first, then those with fewer columns
+  return found
+    .sort((a, b) => b.uniqueness - a.uniqueness || a.columns.length - b.columns.length)
+    .slice(0, MAX_COMPOSITE_KEYS)
+    .map(key => key.columns);
 };
 
-// Find matching unique keys between two datasets
+// Find matching unique keys between two datasets. Keys with several columns are paired with keys
+// of the same size on the other side, trying every column order to line the values up.
 export const findMatchingUniqueKeys = (
   sourceHeaders: string[],
   sourceData: string[][],
   targetHeaders: string[],
-  targetData: string[][]
+  targetData: string[][],
+  sourceKeyCandidates: string[] = [],
+  targetKeyCandidates: string[] = [],
+  sourceProfiles: ColumnProfile[] = [],
+  targetProfiles: ColumnProfile[] = [],
+  sourceNormalization: KeyNormalizationStep[] = [],
+  targetNormalization: KeyNormalizationStep[] = []
 ): Array<{
-  sourceKey: string;
-  targetKey: string;
+  sourceKeys: string[];
+  targetKeys: string[];
   confidence: number;
   matchingValuesCount: number;
 }> => {
-  const sourceUniqueKeys = detectUniqueKeys(sourceHeaders, sourceData);
-  const targetUniqueKeys = detectUniqueKeys(targetHeaders, targetData);
+  const sourceUniqueKeys = detectUniqueKeys(sourceHeaders, sourceData, sourceKeyCandidates, sourceProfiles, sourceNormalization);
+  const targetUniqueKeys = detectUniqueKeys(targetHeaders, targetData, targetKeyCandidates, targetProfiles, targetNormalization);
+  const normalizeSource = createKeyNormalizer(sourceNormalization);
+  const normalizeTarget = createKeyNormalizer(targetNormalization);
   
   if (sourceUniqueKeys.length === 0 || targetUniqueKeys.length === 0) {
     return [];
   }
   
   const results: Array<{
-    sourceKey: string;
-    targetKey: string;
+    sourceKeys: string[];
+    targetKeys: string[];
     confidence: number;
     matchingValuesCount: number;
   }> = [];
   
   // Compare each source key with each target key
-  sourceUniqueKeys.forEach(sourceKey => {
-    const sourceKeyIndex = sourceHeaders.indexOf(sourceKey);
-    const sourceValues = sourceData.map(row => row[sourceKeyIndex]);
+  sourceUniqueKeys.forEach(sourceKeys => {
+    const sourceKeyIndices = getKeyIndices(sourceHeaders, sourceKeys)!;
+    const sourceValuesSet = collectKeys(sourceData, sourceKeyIndices, normalizeSource);
     
-    targetUniqueKeys.forEach(targetKey => {
-      const targetKeyIndex = targetHeaders.indexOf(targetKey);
-      const targetValues = targetData.map(row => row[targetKeyIndex]);
-      
-      // Count matching values
-      let matchingCount = 0;
-      const sourceValuesSet = new Set(sourceValues);
-      
-      targetValues.forEach(value => {
-        if (sourceValuesSet.has(value)) {
-          matchingCount++;
+    targetUniqueKeys
+      .filter(targetKeys => targetKeys.length === sourceKeys.length)
+      .forEach(unorderedTargetKeys => {
+        // Keep the target column order that matches the most values
+        let targetKeys = unorderedTargetKeys;
+        let matchingCount = -1;
+        for (const orderedKeys of permutations(unorderedTargetKeys)) {
+          const targetKeyIndices = getKeyIndices(targetHeaders, orderedKeys)!;
+          
+          // Count matching values
+          let count = 0;
+          targetData.forEach(row => {
+            const key = buildRowKey(row, targetKeyIndices, normalizeTarget);
+            if (key !== null && sourceValuesSet.has(key)) {
+              count++;
+            }
+          });
+          
+          if (count > matchingCount) {
+            targetKeys = orderedKeys;
+            matchingCount = count;
+          }
         }
+        
+        // Calculate name similarity, averaged over the paired columns
+        const nameSimilarity = sourceKeys
+          .reduce((sum, sourceKey, position) => sum + calculateStringSimilarity(sourceKey, targetKeys[position]), 0) / sourceKeys.length;
+        
+        // Calculate match percentage
+        const matchPercentage = (matchingCount / Math.min(sourceData.length, targetData.length)) * 100;
+        
+        // Combined confidence score (weighted)
+        const confidence = (matchPercentage * 0.7) + (nameSimilarity * 0.3);
+        
+        results.push({
+          sourceKeys,
+          targetKeys,
+          confidence: Math.round(confidence),
+          matchingValuesCount: matchingCount
+        });
       });
-      
-      // Calculate name similarity
-      const nameSimilarity = calculateStringSimilarity(sourceKey, targetKey);
-      
-      // Calculate match percentage
-      const matchPercentage = (matchingCount / Math.min(sourceValues.length, targetValues.length)) * 100;
-      
-      // Combined confidence score (weighted)
-      const confidence = (matchPercentage * 0.7) + (nameSimilarity * 0.3);
-      
-      results.push({
-        sourceKey,
-        targetKey,
-        confidence: Math.round(confidence),
-        matchingValuesCount: matchingCount
-      });
-    });
   });
   
-  // Sort by confidence
-  return results.sort((a, b) => b.confidence - a.confidence);
+  // Sort by confidence, preferring single columns and then key candidates on ties
+  const candidateCount = (result: { sourceKeys: string[]; targetKeys: string[] }) =>
+    result.sourceKeys.filter(key => sourceKeyCandidates.includes(key)).length +
+    result.targetKeys.filter(key => targetKeyCandidates.includes(key)).length;
+  
+  return results.sort((a, b) =>
+    b.confidence - a.confidence ||
+    a.sourceKeys.length - b.sourceKeys.length ||
+    candidateCount(b) - candidateCount(a)
+  );
 };
 
 // Calculate string similarity (used for header matching)
@@ -280,30 +546,37 @@ export const analyzeColumnRelationship = (
   targetColumns: string[],
   targetData: string[][],
   targetHeaders: string[],
-  uniqueKeyMapping: { sourceKey: string; targetKey: string }
+  uniqueKeyMapping: {
+    sourceKeys: string[];
+    targetKeys: string[];
+    sourceNormalization?: KeyNormalizationStep[];
+    targetNormalization?: KeyNormalizationStep[];
+  },
+  sourceProfiles: ColumnProfile[] = [],
+  targetProfiles: ColumnProfile[] = [],
+  sourceNumberFormat?: NumberFormat,
+  targetNumberFormat?: NumberFormat
 ): { formula: string; confidence: number } => {
   // Get indices for the columns and unique keys
   const sourceIndices = sourceColumns.map(col => sourceHeaders.indexOf(col));
   const targetIndices = targetColumns.map(col => targetHeaders.indexOf(col));
-  const sourceKeyIndex = sourceHeaders.indexOf(uniqueKeyMapping.sourceKey);
-  const targetKeyIndex = targetHeaders.indexOf(uniqueKeyMapping.targetKey);
+  const sourceKeyIndices = getKeyIndices(sourceHeaders, uniqueKeyMapping.sourceKeys);
+  const targetKeyIndices = getKeyIndices(targetHeaders, uniqueKeyMapping.targetKeys);
+  if (!sourceKeyIndices || !targetKeyIndices) {
+    return { formula: "No matching data found", confidence: 0 };
+  }
   
   // Find matching rows based on the unique key
   const matchingPairs: Array<{ sourceRow: string[]; targetRow: string[] }> = [];
   
   // Build a map of target key values to rows for faster lookup
-  const targetKeyMap = new Map<string, string[]>();
-  targetData.forEach(row => {
-    const keyValue = row[targetKeyIndex];
-    if (keyValue && keyValue.trim()) {
-      targetKeyMap.set(keyValue, row);
-    }
-  });
+  const targetKeyMap = buildKeyMap(targetData, targetKeyIndices, createKeyNormalizer(uniqueKeyMapping.targetNormalization));
+  const normalizeSource = createKeyNormalizer(uniqueKeyMapping.sourceNormalization);
   
   // Find all matching rows
   sourceData.forEach(sourceRow => {
-    const sourceKeyValue = sourceRow[sourceKeyIndex];
-    if (sourceKeyValue && targetKeyMap.has(sourceKeyValue)) {
+    const sourceKeyValue = buildRowKey(sourceRow, sourceKeyIndices, normalizeSource);
+    if (sourceKeyValue !== null && targetKeyMap.has(sourceKeyValue)) {
       matchingPairs.push({
         sourceRow,
         targetRow: targetKeyMap.get(sourceKeyValue)!
@@ -318,17 +591,23 @@ export const analyzeColumnRelationship = (
   // Use the first matching pair to determine relationship
   const { sourceRow, targetRow } = matchingPairs[0];
   
-  // Extract values for source and target columns
-  const sourceValues = sourceIndices.map(idx => {
-    const val = sourceRow[idx];
-    return isNaN(Number(val)) ? val : Number(val);
+  // Extract values for source and target columns, read by their column type
+  const sourceValues = sourceIndices.map((idx, position) => {
+    return parseTypedValue(sourceRow[idx], getColumnProfile(sourceProfiles, sourceColumns[position]), sourceNumberFormat);
   });
   
-  const targetValues = targetIndices.map(idx => {
-    const val = targetRow[idx];
-    return isNaN(Number(val)) ? val : Number(val);
+  const targetValues = targetIndices.map((idx, position) => {
+    return parseTypedValue(targetRow[idx], getColumnProfile(targetProfiles, targetColumns[position]), targetNumberFormat);
   });
   
+  // Dates written differently on each side are the same once read as ISO dates
+  const isDatePair = sourceColumns.length === 1 && targetColumns.length === 1 &&
+    isDateColumn(getColumnProfile(sourceProfiles, sourceColumns[0])) &&
+    isDateColumn(getColumnProfile(targetProfiles, targetColumns[0]));
+  if (isDatePair && sourceValues[0] === targetValues[0]) {
+    return { formula: `${sourceColumns[0]} = ${targetColumns[0]}`, confidence: 95 };
+  }
+
   // For simplicity in this initial version, let's check for basic arithmetic relationships
   // if all values are numeric
   if (sourceValues.every(v => typeof v === 'number') && 
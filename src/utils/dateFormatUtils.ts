@@ -0,0 +1,174 @@
+/**
+ * Utility functions for reading dates written in different formats, detecting the format of a
+ * column and normalizing its values to ISO 8601
+ */
+
+import { type DateFormat } from '@/types/profile';
+
+export const DATE_FORMATS: Array<{ value: DateFormat; label: string }> = [
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD (year first)' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY (day first)' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY (month first)' },
+  { value: 'YYYYMMDD', label: 'YYYYMMDD (no separators)' },
+  { value: 'DD MMM YYYY', label: 'DD MMM YYYY (month name)' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const TIME_PATTERN = /^(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(Z|[+-]\d{2}:?\d{2}|[AP]M)?)?\s*$/i;
+
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  hasTime: boolean;
+}
+
+const toFullYear = (year: string): number => {
+  const number = parseInt(year, 10);
+  if (year.length > 2) return number;
+  return number < 70 ? 2000 + number : 1900 + number;
+};
+
+const monthOf = (name: string): number => MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+// Split a value into year, month, day and the text after the date, by format
+const matchDate = (text: string, format: DateFormat): { year: number; month: number; day: number; rest: string } | null => {
+  let match: RegExpMatchArray | null;
+  switch (format) {
+    case 'YYYY-MM-DD':
+      match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(.*)$/);
+      return match && { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10), rest: match[4] };
+    case 'DD/MM/YYYY':
+      match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(.*)$/);
+      return match && { year: toFullYear(match[3]), month: parseInt(match[2], 10), day: parseInt(match[1], 10), rest: match[4] };
+    case 'MM/DD/YYYY':
+      match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(.*)$/);
+      return match && { year: toFullYear(match[3]), month: parseInt(match[1], 10), day: parseInt(match[2], 10), rest: match[4] };
+    case 'YYYYMMDD':
+      match = text.match(/^((?:19|20)\d{2})(\d{2})(\d{2})(.*)$/);
+      return match && { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10), rest: match[4] };
+    case 'DD MMM YYYY':
+      // Also "Sep 30, 2024"
+      match = text.match(/^(\d{1,2})[\s-]([a-z]{3,9})\.?[\s-]*(\d{4}|\d{2})(.*)$/i);
+      if (match) return { year: toFullYear(match[3]), month: monthOf(match[2]), day: parseInt(match[1], 10), rest: match[4] };
+      match = text.match(/^([a-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4}|\d{2})(.*)$/i);
+      return match && { year: toFullYear(match[3]), month: monthOf(match[1]), day: parseInt(match[2], 10), rest: match[4] };
+  }
+};
+
+// Read a date in the given format, checking that the day exists in its month
+export const parseDateParts = (value: string, format: DateFormat): DateParts | null => {
+  const date = matchDate((value ?? '').trim(), format);
+  if (!date) return null;
+
+  const { year, month, day } = date;
+  if (month < 1 || month > 12 || day < 1 || day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
+
+  const time = date.rest.match(TIME_PATTERN);
+  if (!time) return null;
+
+  let hours = time[1] ? parseInt(time[1], 10) : 0;
+  const minutes = time[2] ? parseInt(time[2], 10) : 0;
+  const seconds = time[3] ? parseInt(time[3], 10) : 0;
+  const meridiem = (time[4] ?? '').toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  return { year, month, day, hours, minutes, seconds, hasTime: !!time[1] };
+};
+
+// Timestamp of a date value, or null when it isn't a date in the given format
+export const parseDate = (value: string, format: DateFormat): number | null => {
+  const parts = parseDateParts(value, format);
+  if (!parts) return null;
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hours, parts.minutes, parts.seconds);
+};
+
+// Days since 1970-01-01, so subtracting two dates in a formula gives the days between them
+export const toDayNumber = (value: string, format: DateFormat): number | null => {
+  const timestamp = parseDate(value, format);
+  return timestamp === null ? null : timestamp / DAY_MS;
+};
+
+// Write a date value as ISO 8601 so the same date compares equal however it was written
+export const toISODate = (value: string, format: DateFormat): string | null => {
+  const parts = parseDateParts(value, format);
+  if (!parts) return null;
+  const pad = (number: number) => number.toString().padStart(2, '0');
+  const date = `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+  return parts.hasTime ? `${date}T${pad(parts.hours)}:${pad(parts.minutes)}:${pad(parts.seconds)}` : date;
+};
+
+// Find the format most of the values are written in. Day first and month first can only be
+// told apart by a value with a part above 12; without one the column is ambiguous and read
+// day first until the user says otherwise.
+export const detectDateFormat = (values: string[]): {
+  format: DateFormat;
+  share: number;
+  hasTime: boolean;
+  ambiguous: boolean;
+} | null => {
+  const filled = values.filter(value => value && value.trim() !== '');
+  if (filled.length === 0) return null;
+
+  const results = DATE_FORMATS.map(({ value: format }) => {
+    const parsed = filled.map(value => parseDateParts(value, format)).filter((parts): parts is DateParts => parts !== null);
+    return { format, parsed };
+  });
+  const bestCount = Math.max(...results.map(result => result.parsed.length));
+  if (bestCount === 0) return null;
+
+  const best = results.filter(result => result.parsed.length === bestCount);
+  const ambiguous = best.some(result => result.format === 'DD/MM/YYYY') && best.some(result => result.format === 'MM/DD/YYYY');
+  const { format, parsed } = best[0];
+
+  return {
+    format,
+    share: bestCount / filled.length,
+    hasTime: parsed.filter(parts => parts.hasTime).length > parsed.length / 2,
+    ambiguous
+  };
+};
+
+// Keep the items whose ISO date falls in the range, inclusive; items without a date only show
+// when no range is set
+export const filterByDateRange = <T extends { date?: string }>(items: T[], from: string, to: string): T[] => {
+  if (!from && !to) return items;
+  return items.filter(item => {
+    if (!item.date) return false;
+    const day = item.date.slice(0, 10);
+    return (!from || day >= from) && (!to || day <= to);
+  });
+};
+
+// Sort items by their ISO date, putting items without a date last
+export const sortByDate = <T extends { date?: string }>(items: T[], direction: 'asc' | 'desc'): T[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => {
+    if (!a.date || !b.date) return Number(!a.date) - Number(!b.date);
+    return a.date < b.date ? -sign : a.date > b.date ? sign : 0;
+  });
+};
+
+// Move date formats chosen by column name to the names the same columns, by position, have now.
+// Formats of columns that no longer exist are dropped.
+export const remapDateFormats = (
+  dateFormats: Record<string, DateFormat> | undefined,
+  oldHeaders: string[],
+  newHeaders: string[]
+): Record<string, DateFormat> | undefined => {
+  if (!dateFormats) return undefined;
+
+  const remapped: Record<string, DateFormat> = {};
+  oldHeaders.forEach((header, index) => {
+    if (header in dateFormats && index < newHeaders.length) {
+      remapped[newHeaders[index]] = dateFormats[header];
+    }
+  });
+  return Object.keys(remapped).length > 0 ? remapped : undefined;
+};
@@ -0,0 +1,255 @@
+/**
+ * Utility functions for reporting and resolving rows that don't fit the table during import
+ */
+
+import { isBlankRow } from './csvTokenizer';
+import { classifyRows, NON_DATA_CLASSES, ROW_CLASS_LABELS } from './rowClassifier';
+import {
+  type ImportDiagnostics,
+  type RowClass,
+  type RowIssue,
+  type RowResolution,
+  type UnreadableRow
+} from '@/types/diagnostics';
+
+export const RESOLUTION_LABELS: Record<RowResolution, string> = {
+  exclude: 'Exclude',
+  pad: 'Pad with empty cells',
+  repair: 'Join with next line',
+  merge: 'Merge overflow cells',
+  include: 'Include as data'
+};
+
+export interface DiagnoseOptions {
+  headerRowCount?: number;
+  lineNumbers?: number[];
+  truncated?: boolean;
+  excludedClasses?: RowClass[];
+  // Importers with a fixed layout only produce data rows, so they skip the classifier
+  classify?: boolean;
+  // Raw rows the importer couldn't read, which can only be excluded
+  unreadableRows?: UnreadableRow[];
+  // Earlier diagnostics of the same rows, whose decisions are kept
+  previous?: ImportDiagnostics;
+}
+
+// Check every row after the header against the header's column count. Rows classified
+// into an excluded class (such as subtotals and footers) and blank rows are excluded straight
+// away but still listed, so they can be included again; everything else waits for a decision.
+export const diagnoseRows = (
+  rawRows: string[][],
+  headerRowIndex: number,
+  options: DiagnoseOptions = {}
+): ImportDiagnostics => {
+  const {
+    headerRowCount = 1,
+    lineNumbers,
+    truncated = false,
+    excludedClasses = NON_DATA_CLASSES,
+    classify = true,
+    unreadableRows = [],
+    previous
+  } = options;
+  const dataStartIndex = headerRowIndex + headerRowCount;
+  // A header spanning several rows is as wide as its widest row
+  const columnCount = Math.max(0, ...rawRows.slice(headerRowIndex, dataStartIndex).map(row => row.length));
+  const rowClasses: RowClass[] = classify
+    ? classifyRows(rawRows, headerRowIndex, headerRowCount)
+    : rawRows.map((_, index) => (index < headerRowIndex ? 'metadata' : index < dataStartIndex ? 'header' : 'data'));
+  const unreadable = new Map(unreadableRows.map(row => [row.rowIndex, row]));
+  const issues: RowIssue[] = [];
+
+  for (let rowIndex = dataStartIndex; rowIndex < rawRows.length; rowIndex++) {
+    const cells = rawRows[rowIndex];
+    const lineNumber = lineNumbers?.[rowIndex] ?? rowIndex + 1;
+    const issue = { rowIndex, lineNumber, cells };
+    const unreadableRow = unreadable.get(rowIndex);
+
+    if (excludedClasses.includes(rowClasses[rowIndex])) {
+      issues.push({
+        ...issue,
+        kind: 'non-data',
+        reason: `Looks like a ${ROW_CLASS_LABELS[rowClasses[rowIndex]].toLowerCase()} row`,
+        availableResolutions: ['exclude', 'include'],
+        resolution: 'exclude'
+      });
+    } else if (unreadableRow) {
+      issues.push({
+        ...issue,
+        lineNumber: unreadableRow.lineNumber,
+        kind: 'unreadable',
+        reason: unreadableRow.reason,
+        availableResolutions: ['exclude'],
+        resolution: null
+      });
+    } else if (truncated && rowIndex === rawRows.length - 1) {
+      issues.push({
+        ...issue,
+        kind: 'truncated',
+        reason: 'The file ends inside a quoted field, so this row is cut off',
+        availableResolutions: cells.length <= columnCount ? ['exclude', 'pad'] : ['exclude', 'merge'],
+        resolution: null
+      });
+    } else if (isBlankRow(cells)) {
+      issues.push({
+        ...issue,
+        kind: 'blank',
+        reason: 'Blank line',
+        availableResolutions: ['exclude'],
+        resolution: 'exclude'
+      });
+    } else if (cells.length < columnCount) {
+      // A record broken by an unquoted line break continues on the next (also short) row;
+      // the broken cell is counted twice, so together they have one cell more than the header
+      const nextRow = rawRows[rowIndex + 1];
+      const canRepair = nextRow !== undefined && nextRow.length < columnCount &&
+        cells.length + nextRow.length - 1 === columnCount;
+      issues.push({
+        ...issue,
+        kind: 'short',
+        reason: `${cells.length} of ${columnCount} cells${canRepair ? ', the next line looks like its continuation' : ''}`,
+        availableResolutions: canRepair ? ['exclude', 'pad', 'repair'] : ['exclude', 'pad'],
+        resolution: null
+      });
+    } else if (cells.length > columnCount) {
+      issues.push({
+        ...issue,
+        kind: 'long',
+        reason: `${cells.length} cells where the header has ${columnCount}`,
+        availableResolutions: ['exclude', 'merge'],
+        resolution: null
+      });
+    }
+  }
+
+  // Keep decisions already made for the same problem on the same row, including
+  // non-data rows that were included again
+  if (previous) {
+    const previousIssues = new Map(previous.issues.map(issue => [issue.rowIndex, issue]));
+    issues.forEach(issue => {
+      const previousIssue = previousIssues.get(issue.rowIndex);
+      if (previousIssue?.kind === issue.kind && (issue.resolution === null || issue.kind === 'non-data')) {
+        issue.resolution = previousIssue.resolution;
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    console.log(`Found ${issues.length} rows that were left out or don't match the ${columnCount} header columns`);
+  }
+  return { columnCount, headerRowCount, issues, rowClasses, excludedClasses };
+};
+
+// Apply the resolution of every problem row after the header, keeping the raw row index each
+// data row starts at
+const resolveRows = (
+  rawRows: string[][],
+  headerRowIndex: number,
+  diagnostics: ImportDiagnostics,
+  mergeSeparator: string
+): { data: string[][]; rowIndices: number[] } => {
+  const { columnCount, headerRowCount } = diagnostics;
+  const issuesByRow = new Map(diagnostics.issues.map(issue => [issue.rowIndex, issue]));
+  const data: string[][] = [];
+  const rowIndices: number[] = [];
+  const push = (cells: string[], rowIndex: number) => {
+    data.push(cells);
+    rowIndices.push(rowIndex);
+  };
+
+  for (let rowIndex = headerRowIndex + headerRowCount; rowIndex < rawRows.length; rowIndex++) {
+    const cells = rawRows[rowIndex];
+    const issue = issuesByRow.get(rowIndex);
+
+    if (!issue) {
+      push(cells, rowIndex);
+      continue;
+    }
+
+    switch (issue.resolution) {
+      case 'pad':
+        push([...cells, ...Array(Math.max(0, columnCount - cells.length)).fill('')], rowIndex);
+        break;
+
+      case 'repair': {
+        const nextRow = rawRows[rowIndex + 1] ?? [];
+        push([...cells.slice(0, -1), `${cells[cells.length - 1]} ${nextRow[0] ?? ''}`.trim(), ...nextRow.slice(1)], rowIndex);
+        // The next row has been used up
+        rowIndex++;
+        break;
+      }
+
+      case 'merge':
+        push([
+          ...cells.slice(0, columnCount - 1),
+          cells.slice(columnCount - 1).join(mergeSeparator)
+        ], rowIndex);
+        break;
+
+      // A non-data row kept as data is fitted to the header like the other resolutions would
+      case 'include':
+        push(cells.length > columnCount
+          ? [...cells.slice(0, columnCount - 1), cells.slice(columnCount - 1).join(mergeSeparator)]
+          : [...cells, ...Array(columnCount - cells.length).fill('')], rowIndex);
+        break;
+
+      // Excluded and unresolved rows are left out
+      default:
+        break;
+    }
+  }
+
+  return { data, rowIndices };
+};
+
+// Build the data rows after the header, applying the resolution of every problem row.
+// Overflow cells are merged back with the separator they were split on.
+export const resolveDataRows = (
+  rawRows: string[][],
+  headerRowIndex: number,
+  diagnostics: ImportDiagnostics,
+  mergeSeparator: string = ','
+): string[][] => {
+  return resolveRows(rawRows, headerRowIndex, diagnostics, mergeSeparator).data;
+};
+
+// 1-based line in the original file where each data row starts, in the order of resolveDataRows
+export const resolveDataLineNumbers = (
+  rawRows: string[][],
+  headerRowIndex: number,
+  diagnostics: ImportDiagnostics,
+  lineNumbers?: number[]
+): number[] => {
+  return resolveRows(rawRows, headerRowIndex, diagnostics, ',').rowIndices
+    .map(rowIndex => lineNumbers?.[rowIndex] ?? rowIndex + 1);
+};
+
+// Rows that a 'repair' of the row before them joins onto that row
+export const getRepairedRows = (diagnostics: ImportDiagnostics): Set<number> => {
+  return new Set(
+    diagnostics.issues.filter(issue => issue.resolution === 'repair').map(issue => issue.rowIndex + 1)
+  );
+};
+
+// Issues that still need a decision before the data can be used. Rows joined onto the
+// row before them are taken care of by that row's resolution.
+export const getUnresolvedIssues = (diagnostics: ImportDiagnostics | undefined): RowIssue[] => {
+  if (!diagnostics) return [];
+  const repairedRows = getRepairedRows(diagnostics);
+  return diagnostics.issues.filter(issue => issue.resolution === null && !repairedRows.has(issue.rowIndex));
+};
+
+// Set the resolution of one row, or of every row that allows it when no row is given
+export const resolveIssues = (
+  diagnostics: ImportDiagnostics,
+  resolution: RowResolution,
+  rowIndex?: number
+): ImportDiagnostics => {
+  return {
+    ...diagnostics,
+    issues: diagnostics.issues.map(issue => {
+      const matches = rowIndex === undefined ? issue.resolution === null : issue.rowIndex === rowIndex;
+      return matches && issue.availableResolutions.includes(resolution) ? { ...issue, resolution } : issue;
+    })
+  };
+};
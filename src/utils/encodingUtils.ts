@@ -0,0 +1,93 @@
+/**
+ * Utility functions for detecting and decoding text file encodings
+ */
+
+// Encodings we can detect and that users can pick manually
+export const ENCODINGS: Array<{ value: string; label: string }> = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1' }
+];
+
+// Detect a byte order mark and return the encoding it announces
+const detectBOM = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+};
+
+// Guess the encoding of a file from its first bytes
+export const detectEncoding = (bytes: Uint8Array): string => {
+  const bomEncoding = detectBOM(bytes);
+  if (bomEncoding) return bomEncoding;
+
+  const sample = bytes.subarray(0, 64 * 1024);
+
+  // UTF-16 without a BOM: ASCII text leaves every other byte empty
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  if (oddZeros > sample.length * 0.3 && evenZeros < sample.length * 0.05) return 'utf-16le';
+  if (evenZeros > sample.length * 0.3 && oddZeros < sample.length * 0.05) return 'utf-16be';
+
+  // Valid UTF-8 is very unlikely to happen by accident in legacy encodings.
+  // Streaming mode keeps a multi-byte character cut off at the sample end from failing.
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: sample.length < bytes.length });
+    return 'utf-8';
+  } catch (error) {
+    // Bytes 0x80-0x9F are printable in Windows-1252 but control codes in ISO-8859-1,
+    // and Windows-1252 is by far the more common of the two in exported files
+    return 'windows-1252';
+  }
+};
+
+// Create a decoder for text that arrives in chunks. Multi-byte characters split across
+// chunks are carried over, and a leading BOM is stripped so it doesn't end up in the first header.
+export const createStreamDecoder = (encoding: string) => {
+  const decoder = encoding === 'iso-8859-1' ? null : new TextDecoder(encoding);
+  let isFirstChunk = true;
+
+  const decode = (bytes: Uint8Array, isLastChunk: boolean = false): string => {
+    let text: string;
+    if (!decoder) {
+      // TextDecoder treats ISO-8859-1 as Windows-1252, so map bytes to code points directly
+      text = '';
+      const chunkSize = 8192;
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        text += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+      }
+    } else {
+      text = decoder.decode(bytes, { stream: !isLastChunk });
+    }
+
+    if (isFirstChunk && text.length > 0) {
+      isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+
+    return text;
+  };
+
+  return { decode };
+};
+
+// Decode raw file bytes, detecting the encoding unless one is given
+export const decodeText = (buffer: ArrayBuffer, encoding?: string): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  const fileEncoding = encoding ?? detectEncoding(bytes);
+  const text = createStreamDecoder(fileEncoding).decode(bytes, true);
+
+  console.log('Decoded file as', fileEncoding);
+  return { text, encoding: fileEncoding };
+};
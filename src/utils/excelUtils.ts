@@ -0,0 +1,161 @@
+/**
+ * Utility functions for importing Excel (.xlsx) workbooks
+ */
+
+import type { CellValue, Worksheet } from 'exceljs';
+import { extractTable } from './csvUtils';
+import { type ImportDiagnostics } from '@/types/diagnostics';
+
+export interface ExcelSheet {
+  name: string;
+  // Used range in A1 notation, e.g. "A1:F120"
+  usedRange: string;
+  // Cell text starting at A1, so rows[r - 1][c - 1] is the cell in row r, column c
+  rows: string[][];
+}
+
+export interface ExcelWorkbook {
+  sheets: ExcelSheet[];
+}
+
+// Check whether a file should be read as an Excel workbook
+export const isExcelFile = (file: File): boolean => {
+  return /\.xlsx$/i.test(file.name);
+};
+
+// Convert a 1-based column number to its letter (1 -> A, 28 -> AB)
+const columnToLetters = (column: number): string => {
+  let letters = '';
+  while (column > 0) {
+    const remainder = (column - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    column = Math.floor((column - 1) / 26);
+  }
+  return letters;
+};
+
+// Convert column letters to a 1-based column number (A -> 1, AB -> 28)
+const lettersToColumn = (letters: string): number => {
+  return letters.toUpperCase().split('').reduce((column, letter) => column * 26 + letter.charCodeAt(0) - 64, 0);
+};
+
+// Parse an A1-style range such as "B3:F200" into 1-based bounds, or null if it's invalid
+export const parseCellRange = (range: string): {
+  startRow: number;
+  startColumn: number;
+  endRow: number;
+  endColumn: number;
+} | null => {
+  const match = range.trim().replace(/\$/g, '').match(/^([A-Za-z]{1,3})(\d+)(?::([A-Za-z]{1,3})(\d+))?$/);
+  if (!match) return null;
+
+  const [, startLetters, startRowText, endLetters = startLetters, endRowText = startRowText] = match;
+  const startColumn = lettersToColumn(startLetters);
+  const endColumn = lettersToColumn(endLetters);
+  const startRow = parseInt(startRowText, 10);
+  const endRow = parseInt(endRowText, 10);
+  if (startRow < 1 || endRow < 1) return null;
+
+  return {
+    startRow: Math.min(startRow, endRow),
+    startColumn: Math.min(startColumn, endColumn),
+    endRow: Math.max(startRow, endRow),
+    endColumn: Math.max(startColumn, endColumn)
+  };
+};
+
+// Format a date as an ISO string, leaving out the time for whole days.
+// Excel dates have no time zone and are read as UTC, so the UTC parts are used as-is.
+const formatExcelDate = (date: Date): string => {
+  const iso = date.toISOString();
+  const hasTime = date.getUTCHours() !== 0 || date.getUTCMinutes() !== 0 ||
+    date.getUTCSeconds() !== 0 || date.getUTCMilliseconds() !== 0;
+  return hasTime ? iso.slice(0, 19) : iso.slice(0, 10);
+};
+
+// Convert a cell value to text while keeping its type: dates as ISO strings,
+// numbers without locale formatting and formulas as their cached result
+const cellValueToString = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatExcelDate(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value === 'string') return value.trim();
+
+  if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+  if ('hyperlink' in value) return String(value.text ?? '').trim();
+  if ('formula' in value || 'sharedFormula' in value) {
+    return cellValueToString(value.result as CellValue);
+  }
+  if ('error' in value) return value.error;
+
+  return '';
+};
+
+// Read all cell text of a worksheet, from A1 to its last used cell
+const readSheetRows = (worksheet: Worksheet): string[][] => {
+  const rows: string[][] = [];
+
+  for (let r = 1; r <= worksheet.rowCount; r++) {
+    const row = worksheet.getRow(r);
+    const cells: string[] = [];
+    for (let c = 1; c <= worksheet.columnCount; c++) {
+      cells.push(cellValueToString(row.getCell(c).value));
+    }
+    rows.push(cells);
+  }
+
+  return rows;
+};
+
+// Read a workbook in the browser and convert every sheet to rows of text
+export const readExcelWorkbook = async (file: File): Promise<ExcelWorkbook> => {
+  // exceljs is large, so only load it once someone actually uploads a workbook
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheets = workbook.worksheets.map(worksheet => {
+    const rows = readSheetRows(worksheet);
+    const columnCount = Math.max(1, worksheet.columnCount);
+    return {
+      name: worksheet.name,
+      usedRange: `A1:${columnToLetters(columnCount)}${Math.max(1, rows.length)}`,
+      rows
+    };
+  });
+
+  console.log(`Read workbook ${file.name} with ${sheets.length} sheets`);
+  return { sheets };
+};
+
+// Extract headers and data from a sheet, optionally limited to a cell range.
+// The result has the same shape as parseCSVFile so everything downstream works unchanged.
+export const parseExcelSheet = (sheet: ExcelSheet, range?: string): {
+  headers: string[];
+  data: string[][];
+  headerRowIndex: number;
+  rawRows: string[][];
+  lineNumbers: number[];
+  diagnostics: ImportDiagnostics;
+} => {
+  const bounds = parseCellRange(range || sheet.usedRange);
+  if (!bounds) {
+    throw new Error(`Invalid cell range: ${range}`);
+  }
+
+  const rawRows = sheet.rows
+    .slice(bounds.startRow - 1, bounds.endRow)
+    .map(row => {
+      const cells = row.slice(bounds.startColumn - 1, bounds.endColumn);
+      // Pad rows so every row of the range has the same number of cells
+      while (cells.length < bounds.endColumn - bounds.startColumn + 1) cells.push('');
+      return cells;
+    });
+
+  // Problems are reported by sheet row number
+  const lineNumbers = rawRows.map((_, index) => bounds.startRow + index);
+  const { headers, data, headerRowIndex, diagnostics } = extractTable(rawRows, { lineNumbers });
+
+  console.log(`Parsed sheet ${sheet.name} with ${headers.length} headers and ${data.length} data rows`);
+  return { headers, data, headerRowIndex, rawRows, lineNumbers, diagnostics };
+};
@@ -0,0 +1,58 @@
+/**
+ * Utility functions for collecting the files of a drag-and-drop, including whole folders
+ */
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> => {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+};
+
+// A directory reader hands out its entries in batches until it returns an empty one
+const readDirectoryEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await readEntryFile(entry as FileSystemFileEntry)];
+  }
+  if (entry.isDirectory) {
+    const entries = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(entries.map(collectEntryFiles));
+    return nested.flat();
+  }
+  return [];
+};
+
+// The dropped files, with folders (and their subfolders) replaced by the files in them
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries have to be taken before the first await, the drop data is cleared afterwards
+  const entries = Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  // Browsers without entry support only give the top-level files
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files = await Promise.all(entries.map(collectEntryFiles));
+  return files.flat();
+};
+
+// Whether a file name ends with one of the extensions of an accept attribute such as ".csv,.txt"
+export const hasAcceptedExtension = (fileName: string, accept: string): boolean => {
+  const name = fileName.toLowerCase();
+  return accept.split(',').some(extension => name.endsWith(extension.trim().toLowerCase()));
+};
+
+// Files in name order, so monthly exports such as "2024-01.csv" and "2024-02.csv" stay in sequence
+export const sortFilesByName = (files: File[]): File[] => {
+  return [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
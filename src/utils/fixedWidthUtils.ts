@@ -0,0 +1,69 @@
+/**
+ * Utility functions for importing fixed-width text files, where columns are defined by
+ * character positions instead of delimiters
+ */
+
+import { extractTable } from './csvUtils';
+import { type ImportDiagnostics } from '@/types/diagnostics';
+
+// Split text into lines, ignoring the line break at the end of the file
+export const splitLines = (text: string): string[] => {
+  const lines = text.split(/\r\n|\r|\n/);
+  if (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Suggest column boundaries from character positions that are blank in (nearly) every line.
+// A boundary is the offset where a column starts, so a run of text after a blank gap starts a column.
+// A few lines such as titles or page headers are allowed to run through a gap.
+export const suggestColumnBoundaries = (lines: string[], sampleSize: number = 200): number[] => {
+  const sample = lines.filter(line => line.trim() !== '').slice(0, sampleSize);
+  if (sample.length === 0) return [];
+
+  const width = Math.max(...sample.map(line => line.length));
+  // Allow one line in fifty to cross a gap, so small samples have to agree completely
+  const maxFilledLines = Math.floor(sample.length * 0.02);
+
+  const isGap = (position: number) => {
+    const filledLines = sample.filter(line => position < line.length && line[position] !== ' ').length;
+    return filledLines <= maxFilledLines;
+  };
+
+  const gaps = Array.from({ length: width }, (_, position) => isGap(position));
+  const boundaries: number[] = [];
+  for (let position = 1; position < width; position++) {
+    if (gaps[position - 1] && !gaps[position]) boundaries.push(position);
+  }
+
+  return boundaries;
+};
+
+// Add a boundary at a position, or remove it if there already is one
+export const toggleColumnBoundary = (boundaries: number[], position: number): number[] => {
+  if (boundaries.includes(position)) {
+    return boundaries.filter(boundary => boundary !== position);
+  }
+  return [...boundaries, position].sort((a, b) => a - b);
+};
+
+// Cut a line into trimmed cells at the given boundaries
+export const splitFixedWidthLine = (line: string, boundaries: number[]): string[] => {
+  const starts = [0, ...boundaries];
+  return starts.map((start, index) => line.slice(start, starts[index + 1]).trim());
+};
+
+// Extract headers and data from fixed-width lines.
+// The result has the same shape as parseCSVFile so everything downstream works unchanged.
+export const parseFixedWidthLines = (lines: string[], boundaries: number[]): {
+  headers: string[];
+  data: string[][];
+  headerRowIndex: number;
+  rawRows: string[][];
+  diagnostics: ImportDiagnostics;
+} => {
+  const rawRows = lines.map(line => splitFixedWidthLine(line, boundaries));
+  const { headers, data, headerRowIndex, diagnostics } = extractTable(rawRows);
+
+  console.log(`Parsed fixed-width text with ${boundaries.length + 1} columns and ${data.length} data rows`);
+  return { headers, data, headerRowIndex, rawRows, diagnostics };
+};
@@ -1,15 +1,33 @@
+import { getColumnProfile, isDateColumn, parseTypedValue } from './profileUtils';
+import { toDayNumber } from './dateFormatUtils';
+import { DEFAULT_NUMBER_FORMAT, type NumberFormat } from './numberFormatUtils';
+import { type ColumnProfile } from '@/types/profile';
 
 export const evaluateFormulaForRow = (
   columns: string[],
   row: Record<string, string>,
   formula: string,
-  isSource: boolean
+  isSource: boolean,
+  columnProfiles: ColumnProfile[] = [],
+  numberFormat: NumberFormat = DEFAULT_NUMBER_FORMAT
 ): number | string => {
   if (columns.length === 0) return 0;
 
+  // Values are read by their column type and the dataset's number format, so "$1,234.56" and
+  // "1.234,56" both count as 1234.56, and dates compare as ISO dates
+  const readValue = (column: string) => {
+    return parseTypedValue(row[column], getColumnProfile(columnProfiles, column), numberFormat);
+  };
+  // In arithmetic a date counts as a day number, so "Value Date - Booking Date" gives days
+  const readNumber = (column: string) => {
+    const profile = getColumnProfile(columnProfiles, column);
+    if (isDateColumn(profile)) return toDayNumber(row[column], profile.dateFormat) ?? 0;
+    const value = readValue(column);
+    return typeof value === 'number' ? value : 0;
+  };
+
   if (columns.length === 1) {
-    const value = row[columns[0]];
-    return isNaN(Number(value)) ? value : Number(value);
+    return readValue(columns[0]);
   }
 
   let result: number = 0;
@@ -22,9 +40,7 @@ export const evaluateFormulaForRow = (
       let expression = relevantFormula;
       for (const column of columns) {
         const regex = new RegExp(column, 'g');
-        const value = row[column];
-        const numericValue = isNaN(Number(value)) ? 0 : Number(value);
-        expression = expression.replace(regex, numericValue.toString());
+        expression = expression.replace(regex, readNumber(column).toString());
       }
 
       result = eval(expression);
@@ -35,8 +51,5 @@ export const evaluateFormulaForRow = (
     }
   }
 
-  return columns.reduce((sum, col) => {
-    const val = row[col];
-    return sum + (isNaN(Number(val)) ? 0 : Number(val));
-  }, 0);
+  return columns.reduce((sum, col) => sum + readNumber(col), 0);
 };
@@ -0,0 +1,264 @@
+/**
+ * Utility functions for pairing keys that almost match, such as references with a typo or two
+ * swapped digits, one to one
+ */
+
+import { type FuzzyAlgorithm, type FuzzyMatchOptions } from '@/types/reconciliation';
+
+export const FUZZY_ALGORITHMS: Array<{ value: FuzzyAlgorithm; label: string }> = [
+  { value: 'levenshtein', label: 'Levenshtein (edits)' },
+  { value: 'damerau', label: 'Damerau (edits and swaps)' },
+  { value: 'jaro-winkler', label: 'Jaro-Winkler (similarity)' }
+];
+
+export const DEFAULT_FUZZY_OPTIONS: FuzzyMatchOptions = {
+  algorithm: 'damerau',
+  maxDistance: 1,
+  minSimilarity: 90,
+  assignment: 'greedy'
+};
+
+// Comparisons are every unmatched source key against every unmatched target key
+export const MAX_FUZZY_COMPARISONS = 4_000_000;
+
+// Larger groups of competing keys are paired greedily, the optimal assignment is cubic
+const MAX_OPTIMAL_GROUP_CELLS = 250_000;
+
+// Insertions, deletions and substitutions needed to turn one key into the other
+export const levenshteinDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Like Levenshtein, but swapping two neighbouring characters counts as one edit
+export const damerauDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Similarity from 0 to 1 that favours keys sharing their start, as references usually do.
+// The prefix boost only applies to keys that are already fairly similar.
+export const jaroWinklerSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  if (jaro < 0.7) return jaro;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// Similarity of two keys from 0 to 1, or null when they are too far apart to pair
+export const scoreKeyPair = (a: string, b: string, options: FuzzyMatchOptions): number | null => {
+  if (options.algorithm === 'jaro-winkler') {
+    const similarity = jaroWinklerSimilarity(a, b);
+    return similarity * 100 >= options.minSimilarity ? similarity : null;
+  }
+
+  // Every edit changes the length by at most one
+  if (Math.abs(a.length - b.length) > options.maxDistance) return null;
+  const distance = options.algorithm === 'damerau' ? damerauDistance(a, b) : levenshteinDistance(a, b);
+  if (distance > options.maxDistance) return null;
+  return 1 - distance / Math.max(a.length, b.length, 1);
+};
+
+export interface FuzzyPair {
+  sourceIndex: number;
+  targetIndex: number;
+  similarity: number;
+}
+
+// Take the most similar pairs first, skipping keys that are already paired
+const assignGreedy = (candidates: FuzzyPair[]): FuzzyPair[] => {
+  const usedSources = new Set<number>();
+  const usedTargets = new Set<number>();
+  return [...candidates]
+    .sort((a, b) => b.similarity - a.similarity || a.sourceIndex - b.sourceIndex || a.targetIndex - b.targetIndex)
+    .filter(pair => {
+      if (usedSources.has(pair.sourceIndex) || usedTargets.has(pair.targetIndex)) return false;
+      usedSources.add(pair.sourceIndex);
+      usedTargets.add(pair.targetIndex);
+      return true;
+    });
+};
+
+// Hungarian algorithm: the column of each row with the lowest total cost, for rows <= columns
+const solveAssignment = (cost: number[][]): number[] => {
+  const rows = cost.length;
+  const columns = cost[0].length;
+  const u = new Array(rows + 1).fill(0);
+  const v = new Array(columns + 1).fill(0);
+  const assignedRow = new Array(columns + 1).fill(0);
+  const way = new Array(columns + 1).fill(0);
+
+  for (let i = 1; i <= rows; i++) {
+    assignedRow[0] = i;
+    let j0 = 0;
+    const minValues = new Array(columns + 1).fill(Infinity);
+    const used = new Array(columns + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = assignedRow[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= columns; j++) {
+        if (used[j]) continue;
+        const reduced = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (reduced < minValues[j]) {
+          minValues[j] = reduced;
+          way[j] = j0;
+        }
+        if (minValues[j] < delta) {
+          delta = minValues[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= columns; j++) {
+        if (used[j]) {
+          u[assignedRow[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minValues[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (assignedRow[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      assignedRow[j0] = assignedRow[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array(rows).fill(-1);
+  for (let j = 1; j <= columns; j++) {
+    if (assignedRow[j] > 0) assignment[assignedRow[j] - 1] = j - 1;
+  }
+  return assignment;
+};
+
+// Pairs with the highest total similarity. Keys only compete with keys they could pair with,
+// so each group of connected candidates is solved on its own.
+const assignOptimal = (candidates: FuzzyPair[]): FuzzyPair[] => {
+  // Group the candidates by the keys they connect
+  const parent = new Map<string, string>();
+  const find = (node: string): string => {
+    let root = node;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(node, root);
+    return root;
+  };
+  candidates.forEach(({ sourceIndex, targetIndex }) => {
+    const sourceNode = `s${sourceIndex}`;
+    const targetNode = `t${targetIndex}`;
+    if (!parent.has(sourceNode)) parent.set(sourceNode, sourceNode);
+    if (!parent.has(targetNode)) parent.set(targetNode, targetNode);
+    parent.set(find(sourceNode), find(targetNode));
+  });
+  const groups = new Map<string, FuzzyPair[]>();
+  candidates.forEach(pair => {
+    const root = find(`s${pair.sourceIndex}`);
+    const group = groups.get(root);
+    if (group) {
+      group.push(pair);
+    } else {
+      groups.set(root, [pair]);
+    }
+  });
+
+  const pairs: FuzzyPair[] = [];
+  groups.forEach(group => {
+    const sources = [...new Set(group.map(pair => pair.sourceIndex))];
+    const targets = [...new Set(group.map(pair => pair.targetIndex))];
+    if (group.length === 1) {
+      pairs.push(group[0]);
+      return;
+    }
+    if (sources.length * targets.length > MAX_OPTIMAL_GROUP_CELLS) {
+      console.log(`Pairing a group of ${sources.length} x ${targets.length} similar keys greedily`);
+      pairs.push(...assignGreedy(group));
+      return;
+    }
+
+    // Solve with the smaller side as rows; a cost of 1 means the keys stay unpaired
+    const transpose = sources.length > targets.length;
+    const rowIds = transpose ? targets : sources;
+    const columnIds = transpose ? sources : targets;
+    const similarity = new Map(group.map(pair => [`${pair.sourceIndex}:${pair.targetIndex}`, pair]));
+    const lookup = (row: number, column: number) => similarity.get(
+      transpose ? `${columnIds[column]}:${rowIds[row]}` : `${rowIds[row]}:${columnIds[column]}`
+    );
+    const cost = rowIds.map((_, row) => columnIds.map((_, column) => 1 - (lookup(row, column)?.similarity ?? 0)));
+
+    solveAssignment(cost).forEach((column, row) => {
+      const pair = column === -1 ? undefined : lookup(row, column);
+      if (pair) pairs.push(pair);
+    });
+  });
+  return pairs;
+};
+
+// Pair the unmatched source keys with unmatched target keys that are close enough, each key at
+// most once. This can take millions of comparisons, so the app runs it in the fuzzy matcher worker.
+export const findFuzzyPairs = (
+  sourceKeys: string[],
+  targetKeys: string[],
+  options: FuzzyMatchOptions
+): FuzzyPair[] => {
+  const candidates: FuzzyPair[] = [];
+  sourceKeys.forEach((sourceKey, sourceIndex) => {
+    targetKeys.forEach((targetKey, targetIndex) => {
+      const similarity = scoreKeyPair(sourceKey, targetKey, options);
+      if (similarity !== null) candidates.push({ sourceIndex, targetIndex, similarity });
+    });
+  });
+
+  const pairs = options.assignment === 'optimal' ? assignOptimal(candidates) : assignGreedy(candidates);
+  console.log(`Fuzzy matching paired ${pairs.length} of ${candidates.length} candidate key pairs`);
+  return pairs.sort((a, b) => a.sourceIndex - b.sourceIndex);
+};
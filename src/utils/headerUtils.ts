@@ -0,0 +1,63 @@
+/**
+ * Utility functions for building column names from one or more header rows
+ */
+
+// Give blank headers a positional name and number repeated ones, so every column can be
+// looked up by name without one overwriting another
+export const makeUniqueHeaders = (headers: string[]): string[] => {
+  const used = new Set<string>();
+
+  return headers.map((header, index) => {
+    const base = header.trim() || `Column ${index + 1}`;
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base} (${suffix})`;
+    }
+    used.add(name);
+    return name;
+  });
+};
+
+// Combine stacked header rows into compound names, e.g. "Amount" above "Debit" and "Credit"
+// becomes "Amount Debit" and "Amount Credit". A label spanning several columns is usually only
+// in the first cell it covers, so upper rows carry their last label over to the right while
+// the row below still has labels.
+export const mergeHeaderRows = (rows: string[][]): string[] => {
+  const width = Math.max(0, ...rows.map(row => row.length));
+
+  const spreadRows = rows.map((row, rowIndex) => {
+    const rowBelow = rows[rowIndex + 1];
+    let lastLabel = '';
+    return Array.from({ length: width }, (_, column) => {
+      const cell = row[column]?.trim() ?? '';
+      if (cell !== '') {
+        lastLabel = cell;
+        return cell;
+      }
+      if (!rowBelow || (rowBelow[column]?.trim() ?? '') === '') lastLabel = '';
+      return lastLabel;
+    });
+  });
+
+  return Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    spreadRows.forEach(row => {
+      // Vertically merged cells repeat their label, which only needs to appear once
+      if (row[column] !== '' && parts[parts.length - 1] !== row[column]) parts.push(row[column]);
+    });
+    return parts.join(' ');
+  });
+};
+
+// Build the final column names: merge the header rows, apply renames by column index and
+// make the result unique
+export const buildHeaders = (
+  rawRows: string[][],
+  headerRowIndex: number,
+  headerRowCount: number = 1,
+  renames: Record<number, string> = {}
+): string[] => {
+  const headerRows = rawRows.slice(headerRowIndex, headerRowIndex + headerRowCount);
+  const merged = headerRows.length > 1 ? mergeHeaderRows(headerRows) : [...(headerRows[0] ?? [])];
+  return makeUniqueHeaders(merged.map((header, index) => renames[index] ?? header));
+};
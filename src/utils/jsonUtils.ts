@@ -0,0 +1,134 @@
+/**
+ * Utility functions for importing JSON and newline-delimited JSON (NDJSON) records
+ */
+
+import { type ReconciliationData } from '@/types/reconciliation';
+
+export type ArrayMode = 'join' | 'explode' | 'first';
+
+// Ways to turn arrays inside records into columns
+export const ARRAY_MODES: Array<{ value: ArrayMode; label: string }> = [
+  { value: 'join', label: 'Join into one value' },
+  { value: 'explode', label: 'Explode into rows' },
+  { value: 'first', label: 'Take the first element' }
+];
+
+type FlatRecord = Record<string, string>;
+
+// Check whether a file should be read as JSON or NDJSON
+export const isJSONFile = (file: File): boolean => {
+  return /\.(json|ndjson|jsonl)$/i.test(file.name);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Read the records of a JSON document or NDJSON file. API responses often wrap the records
+// in an envelope such as {"data": [...]}, so the first array of objects in an object is used.
+export const readJSONRecords = (text: string, fileName: string): unknown[] => {
+  const trimmed = text.trim();
+  if (trimmed === '') return [];
+
+  let document: unknown;
+  try {
+    document = JSON.parse(trimmed);
+  } catch {
+    // Not a single document, so read it as one record per line
+    return trimmed.split(/\r\n|\r|\n/).flatMap((line, index) => {
+      if (line.trim() === '') return [];
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        throw new Error(`${fileName} has invalid JSON on line ${index + 1}`);
+      }
+    });
+  }
+
+  if (Array.isArray(document)) return document;
+  if (isPlainObject(document)) {
+    const records = Object.values(document).find(
+      value => Array.isArray(value) && value.length > 0 && value.every(isPlainObject)
+    );
+    return records ? (records as unknown[]) : [document];
+  }
+  return [document];
+};
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+// Combine every partial row of one field with every partial row of the next
+const crossRows = (rows: FlatRecord[], fieldRows: FlatRecord[]): FlatRecord[] => {
+  return rows.flatMap(row => fieldRows.map(fieldRow => ({ ...row, ...fieldRow })));
+};
+
+// Flatten a value into one or more rows keyed by dotted paths such as "customer.id".
+// Only the explode mode can return more than one row; several exploded arrays in one
+// record produce every combination of their elements.
+const flattenValue = (value: unknown, path: string, arrayMode: ArrayMode): FlatRecord[] => {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [{}];
+
+    if (arrayMode === 'first') {
+      return flattenValue(value[0], `${path}[0]`, arrayMode);
+    }
+
+    if (arrayMode === 'explode') {
+      return value.flatMap(element => flattenValue(element, path, arrayMode));
+    }
+
+    // Join each field across the elements, e.g. fees.amount -> "1.50, 0.25"
+    const elements = value.map(element => flattenValue(element, path, arrayMode)[0]);
+    const keys = Array.from(new Set(elements.flatMap(element => Object.keys(element))));
+    const joined: FlatRecord = {};
+    keys.forEach(key => {
+      joined[key] = elements.map(element => element[key] ?? '').join(', ');
+    });
+    return [joined];
+  }
+
+  if (isPlainObject(value)) {
+    return Object.entries(value).reduce<FlatRecord[]>(
+      (rows, [key, fieldValue]) => crossRows(rows, flattenValue(fieldValue, joinPath(path, key), arrayMode)),
+      [{}]
+    );
+  }
+
+  // Records that are plain values still need a column name
+  return [{ [path || 'value']: value === null || value === undefined ? '' : String(value) }];
+};
+
+// Parse JSON or NDJSON into a dataset with one column per flattened path. The columns are
+// the union of the keys of all records, in the order they first appear.
+export const parseJSONData = (
+  text: string,
+  fileName: string,
+  arrayMode: ArrayMode = 'join'
+): ReconciliationData => {
+  const records = readJSONRecords(text, fileName);
+  const rows = records.flatMap(record => flattenValue(record, '', arrayMode));
+
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    });
+  });
+
+  const data = rows.map(row => headers.map(header => row[header] ?? ''));
+
+  console.log(`Parsed JSON file with ${records.length} records into ${data.length} rows and ${headers.length} columns`);
+
+  return {
+    headers,
+    data,
+    fileName,
+    headerRowIndex: 0,
+    rowCount: data.length,
+    columnCount: headers.length
+  };
+};
@@ -0,0 +1,81 @@
+/**
+ * Utility functions for keys made of one or more columns, such as invoice number + line number
+ */
+
+// Joins the values of a composite key, both for lookups and for showing the key in results
+export const KEY_SEPARATOR = ' | ';
+
+// Position of every key column in the headers, or null when one is missing
+export const getKeyIndices = (headers: string[], keyColumns: string[]): number[] | null => {
+  const indices = keyColumns.map(column => headers.indexOf(column));
+  return indices.length > 0 && indices.every(index => index !== -1) ? indices : null;
+};
+
+// The key of a row, or null when all of its key cells are empty. Single-column keys are the
+// cell value itself, so they read the same as before composite keys existed. Each cell goes
+// through the side's normalization first.
+export const buildRowKey = (
+  row: string[],
+  keyIndices: number[],
+  normalize: (value: string) => string = value => value
+): string | null => {
+  const parts = keyIndices.map(index => normalize(row[index] ?? ''));
+  if (parts.every(part => !part || part.trim() === '')) return null;
+  return parts.join(KEY_SEPARATOR);
+};
+
+// Map each key to its row; when a key repeats, the last row wins
+export const buildKeyMap = (
+  data: string[][],
+  keyIndices: number[],
+  normalize?: (value: string) => string
+): Map<string, string[]> => {
+  const keyMap = new Map<string, string[]>();
+  data.forEach(row => {
+    const key = buildRowKey(row, keyIndices, normalize);
+    if (key !== null) keyMap.set(key, row);
+  });
+  return keyMap;
+};
+
+// Show key columns as "Invoice + Line"
+export const formatKeyColumns = (keyColumns: string[]): string => keyColumns.join(' + ');
+
+// Every ordering of a small list, used to line up composite key columns between the two sides
+export const permutations = <T>(items: T[]): T[][] => {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+};
+
+// Column combinations of a given size, in the order of the columns
+export const combinations = <T>(items: T[], size: number): T[][] => {
+  if (size === 0) return [[]];
+  return items.flatMap((item, index) =>
+    combinations(items.slice(index + 1), size - 1).map(rest => [item, ...rest])
+  );
+};
+
+// Distinct keys of a side
+export const collectKeys = (
+  data: string[][],
+  keyIndices: number[],
+  normalize?: (value: string) => string
+): Set<string> => {
+  const keys = new Set<string>();
+  data.forEach(row => {
+    const key = buildRowKey(row, keyIndices, normalize);
+    if (key !== null) keys.add(key);
+  });
+  return keys;
+};
+
+// Number of distinct target keys also found on the source side
+export const countKeyOverlap = (sourceKeys: Set<string>, targetKeys: Set<string>): number => {
+  let count = 0;
+  targetKeys.forEach(key => {
+    if (sourceKeys.has(key)) count++;
+  });
+  return count;
+};
@@ -0,0 +1,404 @@
+/**
+ * Utility functions for matching rule sets: ordered passes that each pair the rows the earlier
+ * passes left unmatched
+ */
+
+import {
+  type AmountDateCriteria,
+  type AmountDateMatchingRule,
+  type FuzzyKeyMatchingRule,
+  type FuzzyMatchOptions,
+  type KeyMatchingRule,
+  type KeyNormalizationStep,
+  type MatchingRule,
+  type MatchingRuleType,
+  type ReconciliationData,
+  type ReconciliationKeyMapping
+} from '@/types/reconciliation';
+import { buildRowKey, formatKeyColumns, getKeyIndices } from './keyUtils';
+import { createKeyNormalizer, describeNormalization } from './normalizationUtils';
+import { DEFAULT_FUZZY_OPTIONS, FUZZY_ALGORITHMS, MAX_FUZZY_COMPARISONS, type FuzzyPair } from './fuzzyUtils';
+import {
+  describeAmountDateCriteria,
+  readAmountDateItems,
+  suggestAmountDateCriteria,
+  validateAmountDateCriteria,
+  type AmountDateItem,
+  type AmountDatePair
+} from './amountDateUtils';
+import { type FuzzyWorkerRequest } from '@/workers/fuzzyMatcher.worker';
+import { type AmountDateWorkerRequest } from '@/workers/amountDateMatcher.worker';
+
+export const MATCHING_RULE_TYPES: Record<MatchingRuleType, string> = {
+  'key': 'Key',
+  'fuzzy-key': 'Fuzzy key',
+  'amount-date': 'Amount and date'
+};
+
+export type MatchingRulePreset = 'exact-key' | 'normalized-key' | 'fuzzy-key' | 'amount-date' | 'amount-only';
+
+export const MATCHING_RULE_PRESETS: Array<{ value: MatchingRulePreset; label: string }> = [
+  { value: 'exact-key', label: 'Exact key' },
+  { value: 'normalized-key', label: 'Normalized key' },
+  { value: 'fuzzy-key', label: 'Fuzzy key' },
+  { value: 'amount-date', label: 'Amount and date' },
+  { value: 'amount-only', label: 'Amount only' }
+];
+
+// Clean-up of the "Normalized key" preset, which covers most differences in how a reference
+// is written
+const NORMALIZED_KEY_STEPS: KeyNormalizationStep[] = [
+  { type: 'trim' },
+  { type: 'case-fold' },
+  { type: 'alphanumeric' },
+  { type: 'leading-zeros' }
+];
+
+let ruleCount = 0;
+const createRuleId = (): string => `rule-${++ruleCount}`;
+
+// Key and fuzzy key rules, which read a key from each row
+const isKeyBasedRule = (rule: MatchingRule): rule is KeyMatchingRule | FuzzyKeyMatchingRule => {
+  return rule.type === 'key' || rule.type === 'fuzzy-key';
+};
+
+// The rule for a key picked in the wizard
+export const createKeyRule = (keyMapping: ReconciliationKeyMapping): KeyMatchingRule => {
+  const isNormalized = !!(keyMapping.sourceNormalization?.length || keyMapping.targetNormalization?.length);
+  return { id: createRuleId(), name: isNormalized ? 'Normalized key' : 'Exact key', type: 'key', keyMapping };
+};
+
+// The rule for amount and date columns picked in the wizard
+export const createAmountDateRule = (amountDate: AmountDateCriteria): AmountDateMatchingRule => {
+  const hasDates = !!(amountDate.sourceDateColumn && amountDate.targetDateColumn);
+  return { id: createRuleId(), name: hasDates ? 'Amount and date' : 'Amount only', type: 'amount-date', amountDate };
+};
+
+// Rule names identify the passes in the results, so a repeated name gets a number
+const uniqueRuleName = (name: string, rules: MatchingRule[]): string => {
+  const names = new Set(rules.map(rule => rule.name));
+  let candidate = name;
+  for (let count = 2; names.has(candidate); count++) {
+    candidate = `${name} ${count}`;
+  }
+  return candidate;
+};
+
+// Put the rule picked in the wizard first, in place of the previous one, keeping the rules
+// added after it when the key or criteria are confirmed again
+export const replacePrimaryRule = (rules: MatchingRule[], rule: MatchingRule): MatchingRule[] => {
+  const others = rules.slice(1);
+  return [{ ...rule, name: uniqueRuleName(rule.name, others) }, ...others];
+};
+
+// A new rule from a preset. Key rules start from the key columns of the first key rule.
+export const createMatchingRule = (
+  preset: MatchingRulePreset,
+  rules: MatchingRule[],
+  sourceData: ReconciliationData,
+  targetData: ReconciliationData
+): MatchingRule => {
+  const baseKey = rules.find(isKeyBasedRule)?.keyMapping;
+  const keyColumns: ReconciliationKeyMapping = {
+    sourceKeys: baseKey?.sourceKeys ?? [],
+    targetKeys: baseKey?.targetKeys ?? [],
+    confidence: baseKey?.confidence ?? 0
+  };
+
+  let rule: MatchingRule;
+  switch (preset) {
+    case 'exact-key':
+      rule = createKeyRule(keyColumns);
+      break;
+    case 'normalized-key':
+      rule = createKeyRule({ ...keyColumns, sourceNormalization: NORMALIZED_KEY_STEPS, targetNormalization: NORMALIZED_KEY_STEPS });
+      break;
+    case 'fuzzy-key':
+      rule = {
+        id: createRuleId(),
+        name: 'Fuzzy key',
+        type: 'fuzzy-key',
+        keyMapping: { ...keyColumns, sourceNormalization: baseKey?.sourceNormalization, targetNormalization: baseKey?.targetNormalization },
+        fuzzy: DEFAULT_FUZZY_OPTIONS
+      };
+      break;
+    case 'amount-date':
+      rule = createAmountDateRule(suggestAmountDateCriteria(sourceData, targetData));
+      break;
+    case 'amount-only':
+      rule = createAmountDateRule({
+        ...suggestAmountDateCriteria(sourceData, targetData),
+        sourceDateColumn: undefined,
+        targetDateColumn: undefined,
+        amountTolerance: 0.01
+      });
+      break;
+  }
+  return { ...rule, name: uniqueRuleName(rule.name, rules) };
+};
+
+// Describe what a rule compares in one line
+export const describeMatchingRule = (rule: MatchingRule): string => {
+  if (rule.type === 'amount-date') {
+    return describeAmountDateCriteria(rule.amountDate);
+  }
+
+  const { keyMapping } = rule;
+  const parts = [`${formatKeyColumns(keyMapping.sourceKeys)} → ${formatKeyColumns(keyMapping.targetKeys)}`];
+  const sourceSteps = describeNormalization(keyMapping.sourceNormalization);
+  const targetSteps = describeNormalization(keyMapping.targetNormalization);
+  if (sourceSteps === targetSteps) {
+    if (sourceSteps) parts.push(`normalized: ${sourceSteps}`);
+  } else {
+    if (sourceSteps) parts.push(`source normalized: ${sourceSteps}`);
+    if (targetSteps) parts.push(`target normalized: ${targetSteps}`);
+  }
+  if (rule.type === 'fuzzy-key') {
+    const { fuzzy } = rule;
+    const algorithm = FUZZY_ALGORITHMS.find(({ value }) => value === fuzzy.algorithm)?.label ?? fuzzy.algorithm;
+    parts.push(fuzzy.algorithm === 'jaro-winkler'
+      ? `${algorithm} ≥ ${fuzzy.minSimilarity}%`
+      : `${algorithm} ≤ ${fuzzy.maxDistance}`);
+  }
+  return parts.join(', ');
+};
+
+// What is wrong with the rule set, or null when it can run
+export const validateMatchingRules = (
+  rules: MatchingRule[],
+  sourceData: ReconciliationData,
+  targetData: ReconciliationData
+): string | null => {
+  if (rules.length === 0) return 'Add at least one matching rule';
+
+  const names = new Set<string>();
+  for (const rule of rules) {
+    const name = rule.name.trim();
+    if (!name) return 'Every matching rule needs a name';
+    if (names.has(name)) return `Two matching rules are named '${name}'`;
+    names.add(name);
+
+    if (rule.type === 'amount-date') {
+      const error = validateAmountDateCriteria(rule.amountDate, sourceData, targetData);
+      if (error) return `${name}: ${error}`;
+      continue;
+    }
+
+    const { keyMapping } = rule;
+    if (keyMapping.sourceKeys.length === 0 || keyMapping.targetKeys.length === 0) {
+      return `${name}: Please select both source and target keys`;
+    }
+    if (keyMapping.sourceKeys.length !== keyMapping.targetKeys.length) {
+      return `${name}: Pick the same number of key columns on both sides`;
+    }
+  }
+  return null;
+};
+
+// Two rows paired by a rule, by their position in the data
+export interface RulePair {
+  sourceIndex: number;
+  targetIndex: number;
+  // Keys the rows were paired on; amount rules pair rows without one
+  key?: string;
+  targetKey?: string;
+  // Fuzzy key rules: similarity of the keys in percent
+  similarity?: number;
+}
+
+export interface MatchingPassResult {
+  pairs: RulePair[];
+  // Rows the rule couldn't read and why, e.g. a blank key or an amount that isn't a number.
+  // Rows no rule can read end up unmatched with the reason of the last rule that tried.
+  unreadableSources: Map<number, string>;
+  unreadableTargets: Map<number, string>;
+  // Key rules: source rows left out of the pass because a later row has the same key
+  duplicateSources: Map<number, string>;
+  // Why the rule was skipped, when it was
+  warning?: string;
+}
+
+// The keys of the given rows, and the rows whose key cells are all blank
+const readRowKeys = (
+  data: ReconciliationData,
+  keyColumns: string[],
+  steps: KeyNormalizationStep[] | undefined,
+  indices: number[],
+  ruleName: string
+): { keys: Array<{ index: number; key: string }>; unreadable: Map<number, string> } => {
+  const keyIndices = getKeyIndices(data.headers, keyColumns);
+  if (!keyIndices) {
+    throw new Error(`Key columns of rule '${ruleName}' not found in the data`);
+  }
+  const normalize = createKeyNormalizer(steps);
+  const keys: Array<{ index: number; key: string }> = [];
+  const unreadable = new Map<number, string>();
+  indices.forEach(index => {
+    const key = buildRowKey(data.data[index], keyIndices, normalize);
+    if (key === null) {
+      unreadable.set(index, `Key ${formatKeyColumns(keyColumns)} is blank`);
+    } else {
+      keys.push({ index, key });
+    }
+  });
+  return { keys, unreadable };
+};
+
+// Send a request to a matcher worker and wait for the pairs it finds
+const collectWorkerPairs = <Pair>(worker: Worker, request: unknown, failureMessage: string): Promise<Pair[]> => {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<{ type: 'done'; pairs: Pair[] } | { type: 'error'; message: string }>) => {
+      worker.terminate();
+      const message = e.data;
+      if (message.type === 'done') {
+        resolve(message.pairs);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || failureMessage));
+    };
+    
+    worker.postMessage(request);
+  });
+};
+
+// Pair keys that almost match in a Web Worker, as the comparisons can take seconds
+const findFuzzyPairsInWorker = (
+  sourceKeys: string[],
+  targetKeys: string[],
+  options: FuzzyMatchOptions
+): Promise<FuzzyPair[]> => {
+  const worker = new Worker(new URL('../workers/fuzzyMatcher.worker.ts', import.meta.url), { type: 'module' });
+  const request: FuzzyWorkerRequest = { sourceKeys, targetKeys, options };
+  return collectWorkerPairs(worker, request, 'Failed to compare the keys');
+};
+
+// Pair rows by amount and date in a Web Worker, as large files can hold millions of rows
+const findAmountDatePairsInWorker = (
+  sourceItems: AmountDateItem[],
+  targetItems: AmountDateItem[],
+  criteria: AmountDateCriteria
+): Promise<AmountDatePair[]> => {
+  const worker = new Worker(new URL('../workers/amountDateMatcher.worker.ts', import.meta.url), { type: 'module' });
+  const request: AmountDateWorkerRequest = { sourceItems, targetItems, criteria };
+  return collectWorkerPairs(worker, request, 'Failed to pair the amounts');
+};
+
+// Run one rule on the rows still unmatched
+export const runMatchingRule = async (
+  rule: MatchingRule,
+  sourceData: ReconciliationData,
+  targetData: ReconciliationData,
+  sourceIndices: number[],
+  targetIndices: number[]
+): Promise<MatchingPassResult> => {
+  if (rule.type === 'amount-date') {
+    const criteria = rule.amountDate;
+    const readItems = (data: ReconciliationData, isSource: boolean, indices: number[]) => {
+      const amountColumn = isSource ? criteria.sourceAmountColumn : criteria.targetAmountColumn;
+      const dateColumn = isSource ? criteria.sourceDateColumn : criteria.targetDateColumn;
+      const allItems = readAmountDateItems(
+        data,
+        amountColumn,
+        dateColumn,
+        isSource ? criteria.sourceAttributeColumn : criteria.targetAttributeColumn
+      );
+      const items = indices.map(index => allItems[index]);
+      // A blank or unreadable amount or date can't be compared
+      const unreadable = new Map<number, string>();
+      items.forEach((item, position) => {
+        if (item.amount === null) {
+          unreadable.set(indices[position], `Amount in '${amountColumn}' could not be read`);
+        } else if (item.day === null) {
+          unreadable.set(indices[position], `Date in '${dateColumn}' could not be read`);
+        }
+      });
+      return { items, unreadable };
+    };
+    const source = readItems(sourceData, true, sourceIndices);
+    const target = readItems(targetData, false, targetIndices);
+    const pairs = await findAmountDatePairsInWorker(source.items, target.items, criteria);
+
+    return {
+      pairs: pairs.map(pair => ({
+        sourceIndex: sourceIndices[pair.sourceIndex],
+        targetIndex: targetIndices[pair.targetIndex]
+      })),
+      unreadableSources: source.unreadable,
+      unreadableTargets: target.unreadable,
+      duplicateSources: new Map()
+    };
+  }
+
+  const { keyMapping } = rule;
+  const source = readRowKeys(sourceData, keyMapping.sourceKeys, keyMapping.sourceNormalization, sourceIndices, rule.name);
+  const target = readRowKeys(targetData, keyMapping.targetKeys, keyMapping.targetNormalization, targetIndices, rule.name);
+  const sourceKeys = source.keys;
+  const targetKeys = target.keys;
+
+  // When a key repeats on the source side, the last row wins and the earlier ones are
+  // reported as duplicates
+  const sourceByKey = new Map<string, number>();
+  const duplicateSources = new Map<number, string>();
+  sourceKeys.forEach(({ index, key }) => {
+    const earlierIndex = sourceByKey.get(key);
+    if (earlierIndex !== undefined) {
+      duplicateSources.set(earlierIndex, `Duplicate key '${key}' in source data, only the last row with it was compared`);
+    }
+    sourceByKey.set(key, index);
+  });
+  const reports = {
+    unreadableSources: source.unreadable,
+    unreadableTargets: target.unreadable,
+    duplicateSources
+  };
+
+  if (rule.type === 'key') {
+    const pairs: RulePair[] = [];
+    targetKeys.forEach(({ index, key }) => {
+      const sourceIndex = sourceByKey.get(key);
+      if (sourceIndex === undefined) return;
+      sourceByKey.delete(key);
+      pairs.push({ sourceIndex, targetIndex: index, key });
+    });
+    return { pairs, ...reports };
+  }
+
+  const sourceEntries = [...sourceByKey.entries()];
+  if (sourceEntries.length * targetKeys.length > MAX_FUZZY_COMPARISONS) {
+    return {
+      pairs: [],
+      ...reports,
+      warning: `${sourceEntries.length.toLocaleString()} source and ${targetKeys.length.toLocaleString()} target keys are too many to compare`
+    };
+  }
+  const pairs = await findFuzzyPairsInWorker(
+    sourceEntries.map(([key]) => key),
+    targetKeys.map(({ key }) => key),
+    rule.fuzzy
+  );
+  return {
+    pairs: pairs.map(pair => ({
+      sourceIndex: sourceEntries[pair.sourceIndex][1],
+      targetIndex: targetKeys[pair.targetIndex].index,
+      key: sourceEntries[pair.sourceIndex][0],
+      targetKey: targetKeys[pair.targetIndex].key,
+      similarity: Math.round(pair.similarity * 100)
+    })),
+    ...reports
+  };
+};
+
+// How a row is named in the results: its key under the first key rule, or its position in the data
+export const createRowLabeler = (rules: MatchingRule[], data: ReconciliationData, isSource: boolean) => {
+  const keyMapping = rules.find(isKeyBasedRule)?.keyMapping;
+  const keyIndices = keyMapping ? getKeyIndices(data.headers, isSource ? keyMapping.sourceKeys : keyMapping.targetKeys) : null;
+  const normalize = createKeyNormalizer(isSource ? keyMapping?.sourceNormalization : keyMapping?.targetNormalization);
+  return (index: number): string => {
+    return (keyIndices && buildRowKey(data.data[index], keyIndices, normalize)) ?? `Row ${index + 1}`;
+  };
+};
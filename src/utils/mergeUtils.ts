@@ -0,0 +1,95 @@
+/**
+ * Utility functions for combining the tables of several files into one dataset
+ */
+
+// Column added to every merged row, holding the file and line the row came from
+export const PROVENANCE_COLUMN = 'Source Line';
+
+export interface MergeTable {
+  fileName: string;
+  headers: string[];
+  data: string[][];
+  // 1-based line in the file of each data row
+  lineNumbers: number[];
+}
+
+// Columns a file is missing or has on top of the other files
+export interface SchemaDifference {
+  fileName: string;
+  missingColumns: string[];
+  extraColumns: string[];
+}
+
+// Every column name across the files, in the order they are first seen, with the files whose
+// columns differ from the first file's
+export const alignHeaders = (tables: Array<{ fileName: string; headers: string[] }>): {
+  headers: string[];
+  differences: SchemaDifference[];
+} => {
+  const headers: string[] = [];
+  tables.forEach(table => {
+    table.headers.forEach(header => {
+      if (!headers.includes(header)) headers.push(header);
+    });
+  });
+
+  const reference = tables[0]?.headers ?? [];
+  const differences = tables.slice(1)
+    .map(table => ({
+      fileName: table.fileName,
+      missingColumns: reference.filter(header => !table.headers.includes(header)),
+      extraColumns: table.headers.filter(header => !reference.includes(header))
+    }))
+    .filter(difference => difference.missingColumns.length > 0 || difference.extraColumns.length > 0);
+
+  return { headers, differences };
+};
+
+// Describe a schema difference in one line for warnings
+export const describeSchemaDifference = (difference: SchemaDifference): string => {
+  const parts: string[] = [];
+  if (difference.missingColumns.length > 0) {
+    parts.push(`missing ${difference.missingColumns.join(', ')}`);
+  }
+  if (difference.extraColumns.length > 0) {
+    parts.push(`extra ${difference.extraColumns.join(', ')}`);
+  }
+  return `${difference.fileName}: ${parts.join('; ')}`;
+};
+
+// Dataset attributes of the files, named after their file when there are several, since each
+// monthly export has its own period and balances
+export const mergeMetadata = (
+  files: Array<{ fileName: string; metadata?: Record<string, string> }>
+): Record<string, string> | undefined => {
+  if (files.length === 1) return files[0].metadata;
+
+  const merged: Record<string, string> = {};
+  files.forEach(({ fileName, metadata }) => {
+    Object.entries(metadata ?? {}).forEach(([key, value]) => {
+      merged[`${fileName}: ${key}`] = value;
+    });
+  });
+  return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+// Append the rows of every file under the combined columns, leaving cells empty where a file
+// lacks a column, and record where each row came from as "file.csv:12"
+export const mergeTables = (tables: MergeTable[]): {
+  headers: string[];
+  data: string[][];
+  differences: SchemaDifference[];
+} => {
+  const { headers, differences } = alignHeaders(tables);
+  const data: string[][] = [];
+
+  tables.forEach(table => {
+    const columnIndexes = headers.map(header => table.headers.indexOf(header));
+    table.data.forEach((row, rowIndex) => {
+      const line = table.lineNumbers[rowIndex] ?? rowIndex + 1;
+      data.push([...columnIndexes.map(index => (index === -1 ? '' : row[index] ?? '')), `${table.fileName}:${line}`]);
+    });
+  });
+
+  return { headers: [...headers, PROVENANCE_COLUMN], data, differences };
+};
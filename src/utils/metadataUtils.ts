@@ -0,0 +1,62 @@
+/**
+ * Utility functions for reading statement attributes such as the account number, period and
+ * balances from the lines above the header of a file
+ */
+
+import { isBlankRow } from './csvTokenizer';
+import { isNumericCell } from './rowClassifier';
+
+// A label such as "Account" or "Opening balance", but not a date, time or amount
+const isLabel = (text: string): boolean => /[a-z]/i.test(text) && !isNumericCell(text);
+
+const cleanLabel = (text: string): string => text.trim().replace(/[:=]\s*$/, '').replace(/\s+/g, ' ').trim();
+
+// Read one line as a "key: value" pair, either in a single cell ("Account: 12345") or spread over
+// cells ("Account,12345" or "Account:,12345"). Title lines without a value give nothing.
+// Value cells are joined with the delimiter they were split on; sheet cells weren't split, so a space.
+export const parseMetadataLine = (row: string[], delimiter: string = ' '): [string, string] | null => {
+  const cells = row.map(cell => cell.trim()).filter(cell => cell !== '');
+  if (cells.length === 0) return null;
+
+  const [key, ...values] = cells;
+  const match = key.match(/^([^:=]+?)\s*[:=]\s*(.+)$/);
+  if (match) {
+    // An unquoted "Opening balance: 1,000.00" arrives split at the comma, so the cells are
+    // joined back together
+    if (!isLabel(match[1])) return null;
+    return [cleanLabel(match[1]), [match[2].trim(), ...values].join(delimiter)];
+  }
+
+  if (values.length === 0) return null;
+  if (!isLabel(key)) return null;
+  return [cleanLabel(key), values.join(delimiter)];
+};
+
+// Collect the pairs found above the header. A key that appears twice is numbered, e.g. when a
+// file lists the balance of two accounts.
+export const extractMetadata = (
+  rawRows: string[][],
+  headerRowIndex: number,
+  delimiter?: string
+): Record<string, string> => {
+  const metadata: Record<string, string> = {};
+
+  rawRows.slice(0, headerRowIndex).forEach(row => {
+    if (isBlankRow(row)) return;
+    const pair = parseMetadataLine(row, delimiter);
+    if (!pair) return;
+
+    const [key, value] = pair;
+    let name = key;
+    for (let suffix = 2; name in metadata; suffix++) {
+      name = `${key} (${suffix})`;
+    }
+    metadata[name] = value;
+  });
+
+  const count = Object.keys(metadata).length;
+  if (count > 0) {
+    console.log(`Found ${count} attributes above the header:`, Object.keys(metadata).join(', '));
+  }
+  return metadata;
+};
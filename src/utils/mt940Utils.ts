@@ -0,0 +1,245 @@
+/**
+ * Utility functions for importing SWIFT MT940 / MT942 account statements
+ */
+
+import { type UnreadableRow } from '@/types/diagnostics';
+import { type ReconciliationData } from '@/types/reconciliation';
+
+export const MT940_HEADERS = [
+  'Account',
+  'Statement Number',
+  'Value Date',
+  'Entry Date',
+  'Debit/Credit',
+  'Amount',
+  'Transaction Type',
+  'Customer Reference',
+  'Bank Reference',
+  'Supplementary Details',
+  'Narrative'
+];
+
+// Check whether a file should be read as an MT940 / MT942 statement
+export const isMT940File = (file: File): boolean => {
+  return /\.(sta|mt940|mt942|940|942)$/i.test(file.name);
+};
+
+// Split a message into its tagged fields with the 1-based line each starts on;
+// lines without a tag continue the previous field
+const splitTaggedFields = (text: string): Array<{ tag: string; value: string; lineNumber: number }> => {
+  const fields: Array<{ tag: string; value: string; lineNumber: number }> = [];
+
+  text.split(/\r\n|\r|\n/).forEach((rawLine, index) => {
+    // Drop the SWIFT header/trailer blocks and the end-of-message marker
+    const line = rawLine.replace(/^(?:\{[1-5]:(?:\{[^{}]*\}|[^{}])*\}|\{4:)+/, '');
+    if (line.trim() === '' || /^-\}?/.test(line.trim())) return;
+
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2], lineNumber: index + 1 });
+    } else if (fields.length > 0) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+
+  return fields;
+};
+
+// MT amounts use a comma as the decimal separator, e.g. "1234,5"
+const parseAmount = (amount: string): string => {
+  const [whole, fraction = ''] = amount.split(',');
+  return `${whole.replace(/^0+(?=\d)/, '')}.${fraction.padEnd(2, '0')}`;
+};
+
+// Convert a YYMMDD date to ISO, using the SWIFT convention of 20xx for the century
+const parseShortDate = (date: string): string => {
+  return `20${date.slice(0, 2)}-${date.slice(2, 4)}-${date.slice(4, 6)}`;
+};
+
+// The entry date only has month and day, so borrow the year from the value date.
+// Entries booked across a year end get the neighbouring year.
+const parseEntryDate = (entryDate: string, valueDate: string): string => {
+  let year = parseInt(valueDate.slice(0, 4), 10);
+  const valueMonth = parseInt(valueDate.slice(5, 7), 10);
+  const entryMonth = parseInt(entryDate.slice(0, 2), 10);
+
+  if (valueMonth === 12 && entryMonth === 1) year++;
+  if (valueMonth === 1 && entryMonth === 12) year--;
+
+  return `${year}-${entryDate.slice(0, 2)}-${entryDate.slice(2, 4)}`;
+};
+
+// Parse a balance field such as ":60F:C240901EUR1000,00" into "1000.00 EUR (2024-09-01)"
+const parseBalance = (value: string): string => {
+  const match = value.trim().match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)$/);
+  if (!match) return value.trim();
+
+  const [, mark, date, currency, amount] = match;
+  return `${mark === 'D' ? '-' : ''}${parseAmount(amount)} ${currency} (${parseShortDate(date)})`;
+};
+
+// Unpack a :61: statement line. Its first line packs the value date, optional entry date,
+// debit/credit mark, optional funds code, amount, transaction type, customer reference and
+// optional "//" bank reference; an optional second line holds supplementary details.
+const parseStatementLine = (value: string): {
+  valueDate: string;
+  entryDate: string;
+  mark: string;
+  amount: string;
+  transactionType: string;
+  customerReference: string;
+  bankReference: string;
+  supplementaryDetails: string;
+} | null => {
+  const [firstLine, ...rest] = value.split('\n');
+  const match = firstLine.match(/^(\d{6})(\d{4})?(RC|RD|EC|ED|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})(.*)$/);
+  if (!match) return null;
+
+  const [, valueDate, entryDate, mark, , amount, transactionType, references] = match;
+  const [customerReference, bankReference = ''] = references.split('//');
+  const isoValueDate = parseShortDate(valueDate);
+
+  return {
+    valueDate: isoValueDate,
+    entryDate: entryDate ? parseEntryDate(entryDate, isoValueDate) : '',
+    mark,
+    amount: parseAmount(amount),
+    transactionType,
+    customerReference: customerReference.trim(),
+    bankReference: bankReference.trim(),
+    supplementaryDetails: rest.join(' ').trim()
+  };
+};
+
+// Parse an MT940 / MT942 file into one row per :61: statement line, with the account and
+// statement number as columns. Opening and closing balances are kept as dataset metadata.
+// Statement lines that can't be read keep their raw text as a row and are reported as unreadable.
+export const parseMT940Statement = (text: string, fileName: string): ReconciliationData => {
+  const fields = splitTaggedFields(text);
+  if (!fields.some(field => field.tag === '61') && !fields.some(field => field.tag === '20')) {
+    throw new Error(`${fileName} doesn't contain an MT940 or MT942 statement`);
+  }
+
+  const data: string[][] = [];
+  const unreadableRows: UnreadableRow[] = [];
+  const statements: Array<Record<string, string>> = [];
+  let account = '';
+  let statementNumber = '';
+  let currentRow: string[] | null = null;
+
+  const addMetadata = (key: string, value: string) => {
+    // Fields before the first :20: still need a statement to go into
+    if (statements.length === 0) statements.push({});
+    if (value) statements[statements.length - 1][key] = value;
+  };
+
+  fields.forEach(({ tag, value, lineNumber }) => {
+    switch (tag) {
+      case '20':
+        // A transaction reference starts a new statement
+        statements.push({});
+        account = '';
+        statementNumber = '';
+        currentRow = null;
+        addMetadata('Transaction Reference', value.trim());
+        break;
+
+      case '25':
+        account = value.trim();
+        addMetadata('Account', account);
+        break;
+
+      case '28C':
+      case '28':
+        statementNumber = value.trim();
+        addMetadata('Statement Number', statementNumber);
+        break;
+
+      case '13D':
+        addMetadata('Created', value.trim());
+        break;
+
+      case '34F':
+        addMetadata('Floor Limit', value.trim());
+        break;
+
+      case '60F':
+      case '60M':
+        addMetadata('Opening Balance', parseBalance(value));
+        break;
+
+      case '62F':
+      case '62M':
+        addMetadata('Closing Balance', parseBalance(value));
+        break;
+
+      case '64':
+        addMetadata('Closing Available Balance', parseBalance(value));
+        break;
+
+      case '61': {
+        const line = parseStatementLine(value);
+        if (!line) {
+          unreadableRows.push({
+            rowIndex: data.length,
+            lineNumber,
+            reason: 'Statement line (:61:) could not be read'
+          });
+          data.push([`:61:${value.split('\n').join(' ')}`]);
+          currentRow = null;
+          break;
+        }
+
+        currentRow = [
+          account,
+          statementNumber,
+          line.valueDate,
+          line.entryDate,
+          line.mark,
+          line.amount,
+          line.transactionType,
+          line.customerReference,
+          line.bankReference,
+          line.supplementaryDetails,
+          ''
+        ];
+        data.push(currentRow);
+        break;
+      }
+
+      case '86': {
+        const narrative = value.split('\n').map(part => part.trim()).join(' ').trim();
+        if (currentRow) {
+          // The narrative belongs to the statement line right before it
+          currentRow[currentRow.length - 1] = narrative;
+          currentRow = null;
+        } else {
+          addMetadata('Information', narrative);
+        }
+        break;
+      }
+    }
+  });
+
+  // Files with several statements get their attributes labelled per statement
+  const metadata: Record<string, string> = {};
+  statements.forEach((statement, index) => {
+    const label = statements.length > 1 ? ` (${statement['Statement Number'] || index + 1})` : '';
+    Object.entries(statement).forEach(([key, value]) => {
+      metadata[`${key}${label}`] = value;
+    });
+  });
+
+  console.log(`Parsed MT940 file with ${statements.length} statements, ${data.length - unreadableRows.length} entries and ${unreadableRows.length} unreadable lines`);
+
+  return {
+    headers: [...MT940_HEADERS],
+    data,
+    fileName,
+    headerRowIndex: 0,
+    rowCount: data.length,
+    columnCount: MT940_HEADERS.length,
+    metadata,
+    unreadableRows
+  };
+};
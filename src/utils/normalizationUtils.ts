@@ -0,0 +1,107 @@
+/**
+ * Utility functions for cleaning up key values so the same transaction matches however each
+ * side writes its reference, e.g. "INV-000123" and "123"
+ */
+
+import { buildRowKey } from './keyUtils';
+import { type KeyNormalizationStep, type KeyNormalizationType } from '@/types/reconciliation';
+
+export const NORMALIZATION_STEPS: Array<{ value: KeyNormalizationType; label: string }> = [
+  { value: 'trim', label: 'Trim whitespace' },
+  { value: 'case-fold', label: 'Ignore case' },
+  { value: 'alphanumeric', label: 'Keep letters and digits only' },
+  { value: 'leading-zeros', label: 'Strip leading zeros' },
+  { value: 'prefix', label: 'Remove prefix' },
+  { value: 'suffix', label: 'Remove suffix' },
+  { value: 'regex', label: 'Extract with regex' }
+];
+
+// Steps that need text from the user
+export const STEP_VALUE_PLACEHOLDERS: Partial<Record<KeyNormalizationType, string>> = {
+  prefix: 'e.g. INV-',
+  suffix: 'e.g. /A',
+  regex: 'e.g. (\\d+)$'
+};
+
+// Compile a regex step, or null when the pattern is empty or invalid
+export const compilePattern = (pattern: string | undefined): RegExp | null => {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+};
+
+// Build a function applying the steps in order. Steps without their text, and invalid
+// patterns, are skipped so a half-typed step never empties every key.
+export const createKeyNormalizer = (steps: KeyNormalizationStep[] = []): ((value: string) => string) => {
+  const transforms = steps.map((step): ((value: string) => string) | null => {
+    switch (step.type) {
+      case 'trim':
+        return value => value.trim();
+      case 'case-fold':
+        return value => value.toLowerCase();
+      case 'alphanumeric':
+        return value => value.replace(/[^\p{L}\p{N}]/gu, '');
+      case 'leading-zeros':
+        // Keep a lone zero
+        return value => value.replace(/^0+(?=.)/, '');
+      case 'prefix': {
+        const prefix = step.value?.toLowerCase();
+        if (!prefix) return null;
+        return value => (value.toLowerCase().startsWith(prefix) ? value.slice(prefix.length) : value);
+      }
+      case 'suffix': {
+        const suffix = step.value?.toLowerCase();
+        if (!suffix) return null;
+        return value => (value.toLowerCase().endsWith(suffix) ? value.slice(0, -suffix.length) : value);
+      }
+      case 'regex': {
+        const pattern = compilePattern(step.value);
+        if (!pattern) return null;
+        // Values the pattern doesn't match are left as they are
+        return value => {
+          const match = value.match(pattern);
+          return match ? match[1] ?? match[0] : value;
+        };
+      }
+    }
+  }).filter((transform): transform is (value: string) => string => transform !== null);
+
+  if (transforms.length === 0) return value => value;
+  return value => transforms.reduce((result, transform) => transform(result), value ?? '');
+};
+
+// Describe the steps in one line, e.g. "Remove prefix INV-, Strip leading zeros"
+export const describeNormalization = (steps: KeyNormalizationStep[] = []): string => {
+  return steps
+    .map(step => {
+      const label = NORMALIZATION_STEPS.find(option => option.value === step.type)?.label ?? step.type;
+      return step.value ? `${label} ${step.value}` : label;
+    })
+    .join(', ');
+};
+
+// A few keys before and after normalization, preferring ones the steps change
+export const sampleNormalizedKeys = (
+  data: string[][],
+  keyIndices: number[],
+  normalize: (value: string) => string,
+  limit: number = 5
+): Array<{ before: string; after: string }> => {
+  const seen = new Set<string>();
+  const changed: Array<{ before: string; after: string }> = [];
+  const unchanged: Array<{ before: string; after: string }> = [];
+
+  for (const row of data) {
+    const before = buildRowKey(row, keyIndices);
+    if (before === null || seen.has(before)) continue;
+    seen.add(before);
+
+    const after = buildRowKey(row, keyIndices, normalize) ?? '';
+    (after !== before ? changed : unchanged).push({ before, after });
+    if (changed.length >= limit) break;
+  }
+  return [...changed, ...unchanged].slice(0, limit);
+};
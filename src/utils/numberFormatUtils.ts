@@ -0,0 +1,149 @@
+/**
+ * Utility functions for reading amounts written in different locales, e.g. "1,234.56",
+ * "1.234,56", "(250.00)", "250.00-", "$1,000" or "€ 12"
+ */
+
+// Number formats, named after how they write one thousand two hundred and thirty-four and a bit
+export type NumberFormat = '1,234.56' | '1.234,56' | '1 234,56' | "1'234.56";
+
+export const NUMBER_FORMATS: Array<{ value: NumberFormat; label: string; decimal: string; group: string }> = [
+  { value: '1,234.56', label: '1,234.56 (comma thousands, dot decimals)', decimal: '.', group: ',' },
+  { value: '1.234,56', label: '1.234,56 (dot thousands, comma decimals)', decimal: ',', group: '.' },
+  { value: '1 234,56', label: '1 234,56 (space thousands, comma decimals)', decimal: ',', group: ' ' },
+  { value: "1'234.56", label: "1'234.56 (apostrophe thousands, dot decimals)", decimal: '.', group: "'" }
+];
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = '1,234.56';
+
+const CURRENCY_PATTERN = /[$€£¥]|\b(USD|EUR|GBP|JPY|CHF|CAD|AUD)\b/i;
+// Spaces used as thousands separators, including the non-breaking ones spreadsheets write
+const SPACES = /[\s\u00a0\u202f]/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const getSeparators = (format: NumberFormat) => {
+  return NUMBER_FORMATS.find(option => option.value === format) ?? NUMBER_FORMATS[0];
+};
+
+// Remove the currency, brackets and minus signs around a number, returning the digits and
+// whether it was negative. Negatives can be "-250", "(250.00)" or "250.00-".
+const stripSigns = (value: string): { text: string; negative: boolean } => {
+  let text = value.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+  if (text.endsWith('-')) {
+    negative = !negative;
+    text = text.slice(0, -1).trim();
+  }
+  text = text.replace(new RegExp(CURRENCY_PATTERN.source, 'gi'), '').trim();
+  if (text.startsWith('-') || text.startsWith('+')) {
+    if (text.startsWith('-')) negative = !negative;
+    text = text.slice(1).trim();
+  }
+
+  return { text, negative };
+};
+
+// Parse a number written in the given format, or return null when it isn't one
+export const parseNumber = (value: string, format: NumberFormat = DEFAULT_NUMBER_FORMAT): number | null => {
+  if (!value || value.trim() === '') return null;
+
+  const { decimal, group } = getSeparators(format);
+  const { text: stripped, negative } = stripSigns(value);
+  const text = group === ' ' ? stripped.replace(SPACES, ' ') : stripped;
+
+  const groupPattern = escapeRegExp(group);
+  const decimalPattern = escapeRegExp(decimal);
+  const pattern = new RegExp(`^(\\d{1,3}(${groupPattern}\\d{3})+|\\d+)(${decimalPattern}\\d+)?$|^${decimalPattern}\\d+$`);
+  if (!pattern.test(text)) return null;
+
+  const number = Number(text.split(group).join('').replace(decimal, '.'));
+  return negative ? -number : number;
+};
+
+// Whether a number is written with decimals, so "2.00" counts but "2" and "1,234" don't
+export const hasDecimalPart = (value: string, format: NumberFormat = DEFAULT_NUMBER_FORMAT): boolean => {
+  const { decimal } = getSeparators(format);
+  return new RegExp(`${escapeRegExp(decimal)}\\d+$`).test(stripSigns(value).text);
+};
+
+// Signs that a number is a money amount rather than a plain quantity
+export const hasAmountFormatting = (value: string): boolean => {
+  const text = value.trim();
+  return CURRENCY_PATTERN.test(text) || /^\(.*\)$/.test(text) || /\d\s*-$/.test(text);
+};
+
+// The format a single value gives away, if any. "1,234" could be either, so it gives nothing.
+const formatOf = (value: string): NumberFormat | null => {
+  const { text } = stripSigns(value);
+  if (!/^[\d.,'\s\u00a0\u202f]+$/.test(text) || !/\d/.test(text)) return null;
+
+  if (text.includes("'")) return "1'234.56";
+  if (/\d[\s\u00a0\u202f]\d{3}/.test(text)) return /,\d+$/.test(text) ? '1 234,56' : null;
+
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+  if (lastDot !== -1 && lastComma !== -1) {
+    return lastComma > lastDot ? '1.234,56' : '1,234.56';
+  }
+
+  const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+  if (!separator) return null;
+  const parts = text.split(separator);
+  if (parts.length > 2) {
+    // Repeated separators group thousands; "30.09.2024" is a date, not a number
+    return parts.slice(1).every(part => part.length === 3) ? (separator === '.' ? '1.234,56' : '1,234.56') : null;
+  }
+  if (parts[1].length === 3) return null;
+  return separator === '.' ? '1,234.56' : '1.234,56';
+};
+
+// Detect the number format of a dataset from the numbers in it, by majority
+export const detectNumberFormat = (data: string[][], sampleRows: number = 1000): NumberFormat => {
+  const votes = new Map<NumberFormat, number>();
+  data.slice(0, sampleRows).forEach(row => {
+    row.forEach(cell => {
+      const format = cell ? formatOf(cell) : null;
+      if (format) votes.set(format, (votes.get(format) ?? 0) + 1);
+    });
+  });
+
+  let detected: NumberFormat = DEFAULT_NUMBER_FORMAT;
+  let bestCount = 0;
+  votes.forEach((count, format) => {
+    if (count > bestCount) {
+      detected = format;
+      bestCount = count;
+    }
+  });
+
+  if (detected !== DEFAULT_NUMBER_FORMAT) {
+    console.log(`Detected number format ${detected}`);
+  }
+  return detected;
+};
+
+// Write a number in the given format with two decimals, e.g. for totals
+export const formatNumber = (value: number, format: NumberFormat = DEFAULT_NUMBER_FORMAT): string => {
+  const { decimal, group } = getSeparators(format);
+  const [whole, fraction] = Math.abs(value).toFixed(2).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  return `${value < 0 ? '-' : ''}${grouped}${decimal}${fraction}`;
+};
+
+// Rewrite a number from one format into another without thousands separators, e.g. "1.234,56"
+// becomes "1234.56", since "1,234" would read as a decimal in some formats. The sign, brackets
+// and currency stay as written. Values that aren't a number in the original format are returned as they are.
+export const convertNumber = (value: string, from: NumberFormat, to: NumberFormat): string => {
+  const number = from === to ? null : parseNumber(value, from);
+  if (number === null) return value;
+
+  const { text } = stripSigns(value);
+  const [whole, fraction] = text.split(getSeparators(from).decimal);
+  const canonical = `${whole.replace(/\D/g, '')}${fraction !== undefined ? `${getSeparators(to).decimal}${fraction}` : ''}`;
+  return value.includes(text) ? value.replace(text, canonical) : `${number < 0 ? '-' : ''}${canonical}`;
+};
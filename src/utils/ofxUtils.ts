@@ -0,0 +1,137 @@
+/**
+ * Utility functions for importing OFX / QFX bank downloads (SGML OFX 1.x and XML OFX 2.x)
+ */
+
+import { type ReconciliationData } from '@/types/reconciliation';
+
+export const OFX_HEADERS = [
+  'FITID',
+  'Date Posted',
+  'Type',
+  'Amount',
+  'Name',
+  'Memo',
+  'Check Number'
+];
+
+// Check whether a file should be read as an OFX / QFX download
+export const isOFXFile = (file: File): boolean => {
+  return /\.(ofx|qfx)$/i.test(file.name);
+};
+
+const decodeEntities = (value: string): string => {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+};
+
+// Read a leaf element. OFX 1.x is SGML where leaf elements have no closing tag,
+// so the value runs up to the next tag or line break, which works for XML as well.
+const readElement = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+};
+
+// Aggregates are closed in both OFX versions, so they can be cut out by their tags
+const readAggregates = (text: string, tag: string): string[] => {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  return Array.from(text.matchAll(pattern), match => match[1]);
+};
+
+// Convert an OFX date such as "20240915120000.000[-5:EST]" to ISO, leaving out midnight times
+const parseOFXDate = (value: string): string => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) return value;
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  const date = `${year}-${month}-${day}`;
+  return hour === '00' && minute === '00' && second === '00' ? date : `${date}T${hour}:${minute}:${second}`;
+};
+
+const formatBalance = (block: string, currency: string): string => {
+  const amount = readElement(block, 'BALAMT');
+  if (!amount) return '';
+  const asOf = readElement(block, 'DTASOF');
+  return `${amount}${currency ? ` ${currency}` : ''}${asOf ? ` (${parseOFXDate(asOf)})` : ''}`;
+};
+
+// Collect the statement-level attributes: account, period and balances
+const extractStatementMetadata = (statement: string): Record<string, string> => {
+  const metadata: Record<string, string> = {};
+  const add = (key: string, value: string) => {
+    if (value) metadata[key] = value;
+  };
+
+  const currency = readElement(statement, 'CURDEF');
+  add('Bank ID', readElement(statement, 'BANKID'));
+  add('Account', readElement(statement, 'ACCTID'));
+  add('Account Type', readElement(statement, 'ACCTTYPE'));
+  add('Currency', currency);
+
+  const start = readElement(statement, 'DTSTART');
+  const end = readElement(statement, 'DTEND');
+  if (start || end) add('Period', `${parseOFXDate(start)} – ${parseOFXDate(end)}`);
+
+  const ledgerBalance = readAggregates(statement, 'LEDGERBAL')[0];
+  if (ledgerBalance) add('Ledger Balance', formatBalance(ledgerBalance, currency));
+  const availableBalance = readAggregates(statement, 'AVAILBAL')[0];
+  if (availableBalance) add('Available Balance', formatBalance(availableBalance, currency));
+
+  return metadata;
+};
+
+// Parse an OFX / QFX file into one row per <STMTTRN>. FITID is the bank's own unique
+// transaction ID, so it's offered as the key candidate for key detection.
+export const parseOFXStatement = (text: string, fileName: string): ReconciliationData => {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error(`${fileName} is not an OFX file`);
+  }
+
+  // Bank and credit card statements, falling back to the whole file for unusual layouts
+  const statements = [
+    ...readAggregates(text, 'STMTRS'),
+    ...readAggregates(text, 'CCSTMTRS')
+  ];
+  if (statements.length === 0) statements.push(text);
+
+  const data: string[][] = [];
+  const metadata: Record<string, string> = {};
+
+  statements.forEach((statement, index) => {
+    readAggregates(statement, 'STMTTRN').forEach(transaction => {
+      data.push([
+        readElement(transaction, 'FITID'),
+        parseOFXDate(readElement(transaction, 'DTPOSTED')),
+        readElement(transaction, 'TRNTYPE'),
+        readElement(transaction, 'TRNAMT'),
+        readElement(transaction, 'NAME') || readElement(transaction, 'PAYEEID'),
+        readElement(transaction, 'MEMO'),
+        readElement(transaction, 'CHECKNUM')
+      ]);
+    });
+
+    // Files with several statements get their attributes labelled per statement
+    const statementMetadata = extractStatementMetadata(statement);
+    const label = statements.length > 1 ? ` (${statementMetadata['Account'] || index + 1})` : '';
+    Object.entries(statementMetadata).forEach(([key, value]) => {
+      metadata[`${key}${label}`] = value;
+    });
+  });
+
+  console.log(`Parsed OFX file with ${statements.length} statements and ${data.length} transactions`);
+
+  return {
+    headers: [...OFX_HEADERS],
+    data,
+    fileName,
+    headerRowIndex: 0,
+    rowCount: data.length,
+    columnCount: OFX_HEADERS.length,
+    metadata,
+    keyCandidates: ['FITID']
+  };
+};
@@ -0,0 +1,246 @@
+/**
+ * Utility functions for inferring the type of each column (amounts, dates, identifiers, text)
+ * and profiling its values, so later steps work with typed values instead of raw strings
+ */
+
+import {
+  convertNumber,
+  DEFAULT_NUMBER_FORMAT,
+  hasAmountFormatting,
+  hasDecimalPart,
+  parseNumber,
+  type NumberFormat
+} from './numberFormatUtils';
+import { detectDateFormat, parseDate, parseDateParts, toISODate } from './dateFormatUtils';
+import { type ColumnProfile, type ColumnType, type DateFormat } from '@/types/profile';
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  integer: 'Integer',
+  decimal: 'Decimal',
+  currency: 'Currency amount',
+  date: 'Date',
+  datetime: 'Date and time',
+  boolean: 'Boolean',
+  identifier: 'Identifier',
+  text: 'Free text'
+};
+
+export const NUMERIC_TYPES: ColumnType[] = ['integer', 'decimal', 'currency'];
+export const DATE_TYPES: ColumnType[] = ['date', 'datetime'];
+
+// Share of the filled values that must fit a type for the column to get it
+const TYPE_THRESHOLD = 0.9;
+// Values looked at when inferring a type; counts and ranges use every value
+const SAMPLE_SIZE = 5000;
+
+const AMOUNT_HEADER_PATTERN = /amount|amt|balance|debit|credit|total|price|cost|fee|payment|value/i;
+const IDENTIFIER_HEADER_PATTERN = /(^|[^a-z])(id|ref|reference|number|no|code|key)([^a-z]|$)|id$/i;
+const BOOLEAN_VALUES = ['true', 'false', 'yes', 'no', 'y', 'n', 't', 'f'];
+
+// A code such as "INV-0042" or "TX12345": no spaces and at least one digit
+const looksLikeIdentifier = (value: string): boolean => {
+  return /^[a-z0-9][a-z0-9\-_/.#:]*$/i.test(value) && /\d/.test(value) && value.length >= 3;
+};
+
+interface InferredType {
+  type: ColumnType;
+  confidence: number;
+  dateFormat?: DateFormat;
+  dateFormatAmbiguous?: boolean;
+}
+
+// Pick the type most of the values fit, checking the narrowest types first
+const inferColumnType = (
+  name: string,
+  filled: string[],
+  distinctCount: number,
+  numberFormat: NumberFormat
+): InferredType => {
+  if (filled.length === 0) return { type: 'text', confidence: 0 };
+
+  const sample = filled.slice(0, SAMPLE_SIZE);
+  const shareOf = (test: (value: string) => boolean) => sample.filter(test).length / sample.length;
+  const percentage = (share: number) => Math.round(share * 100);
+  const isUnique = distinctCount / filled.length >= TYPE_THRESHOLD;
+
+  const booleanShare = shareOf(value => BOOLEAN_VALUES.includes(value.toLowerCase()));
+  if (booleanShare >= TYPE_THRESHOLD) return { type: 'boolean', confidence: percentage(booleanShare) };
+
+  const detectedDate = detectDateFormat(sample);
+  const dateShare = detectedDate?.share ?? 0;
+  if (detectedDate && dateShare >= TYPE_THRESHOLD) {
+    return {
+      type: detectedDate.hasTime ? 'datetime' : 'date',
+      confidence: percentage(dateShare),
+      dateFormat: detectedDate.format,
+      dateFormatAmbiguous: detectedDate.ambiguous
+    };
+  }
+
+  const numbers = sample.filter(value => parseNumber(value, numberFormat) !== null);
+  const numericShare = numbers.length / sample.length;
+  if (numericShare >= TYPE_THRESHOLD) {
+    const confidence = percentage(numericShare);
+    if (numbers.some(hasAmountFormatting) || AMOUNT_HEADER_PATTERN.test(name)) {
+      return { type: 'currency', confidence };
+    }
+    if (numbers.some(value => hasDecimalPart(value, numberFormat))) return { type: 'decimal', confidence };
+    // Leading zeros only matter to codes, and unique numbers under an "ID" style name are codes too
+    const hasLeadingZeros = numbers.some(value => /^0\d/.test(value.trim()));
+    if (hasLeadingZeros || (isUnique && IDENTIFIER_HEADER_PATTERN.test(name))) {
+      return { type: 'identifier', confidence };
+    }
+    return { type: 'integer', confidence };
+  }
+
+  const identifierShare = shareOf(looksLikeIdentifier);
+  if (identifierShare >= TYPE_THRESHOLD && (isUnique || IDENTIFIER_HEADER_PATTERN.test(name))) {
+    return { type: 'identifier', confidence: percentage(identifierShare) };
+  }
+
+  // Free text is whatever is left; the closer it came to another type, the less sure it is
+  const closestShare = Math.max(booleanShare, dateShare, numericShare, identifierShare);
+  return { type: 'text', confidence: percentage(1 - closestShare) };
+};
+
+// Find the smallest and largest value, comparing numbers and dates by value. Dates are given
+// as ISO 8601.
+const findRange = (
+  filled: string[],
+  type: ColumnType,
+  numberFormat: NumberFormat,
+  dateFormat?: DateFormat
+): { min?: string; max?: string } => {
+  if (type === 'boolean' || filled.length === 0) return {};
+
+  const isDate = DATE_TYPES.includes(type) && !!dateFormat;
+  const keyOf: (value: string) => number | string | null = NUMERIC_TYPES.includes(type)
+    ? (value: string) => parseNumber(value, numberFormat)
+    : isDate ? (value: string) => parseDate(value, dateFormat) : (value: string) => value;
+
+  let min: { value: string; key: number | string } | null = null;
+  let max: { value: string; key: number | string } | null = null;
+  filled.forEach(value => {
+    const key = keyOf(value);
+    if (key === null) return;
+    if (!min || key < min.key) min = { value, key };
+    if (!max || key > max.key) max = { value, key };
+  });
+
+  if (isDate) {
+    return { min: min && toISODate(min.value, dateFormat), max: max && toISODate(max.value, dateFormat) };
+  }
+  return { min: min?.value, max: max?.value };
+};
+
+// Read a column as dates in a format the user chose
+const inferWithDateFormat = (filled: string[], dateFormat: DateFormat): InferredType => {
+  const sample = filled.slice(0, SAMPLE_SIZE);
+  const dates = sample.map(value => parseDateParts(value, dateFormat)).filter(parts => parts !== null);
+  const withTime = dates.filter(parts => parts.hasTime).length;
+  return {
+    type: withTime > dates.length / 2 ? 'datetime' : 'date',
+    confidence: sample.length > 0 ? Math.round((dates.length / sample.length) * 100) : 0,
+    dateFormat,
+    dateFormatAmbiguous: false
+  };
+};
+
+// Profile one column from its values. A chosen date format makes it a date column.
+export const profileColumn = (
+  name: string,
+  values: string[],
+  numberFormat: NumberFormat = DEFAULT_NUMBER_FORMAT,
+  dateFormat?: DateFormat
+): ColumnProfile => {
+  const filled = values.map(value => (value ?? '').trim()).filter(value => value !== '');
+  const distinctCount = new Set(filled).size;
+  const inferred = dateFormat
+    ? inferWithDateFormat(filled, dateFormat)
+    : inferColumnType(name, filled, distinctCount, numberFormat);
+
+  return {
+    name,
+    ...inferred,
+    nullRate: values.length > 0 ? (values.length - filled.length) / values.length : 0,
+    distinctCount,
+    ...findRange(filled, inferred.type, numberFormat, inferred.dateFormat)
+  };
+};
+
+// Profile every column of a table
+export const profileColumns = (
+  headers: string[],
+  data: string[][],
+  numberFormat: NumberFormat = DEFAULT_NUMBER_FORMAT,
+  dateFormats: Record<string, DateFormat> = {}
+): ColumnProfile[] => {
+  const profiles = headers.map((header, index) => {
+    return profileColumn(header, data.map(row => row[index]), numberFormat, dateFormats[header]);
+  });
+  console.log('Column types:', profiles.map(profile => `${profile.name}=${profile.type}`).join(', '));
+  return profiles;
+};
+
+// Rewrite the amounts in the decimal and currency columns of a table into another number format,
+// so tables written differently can be merged and read with one format. Integer columns may hold
+// invoice numbers or keys, so they stay as written along with codes, dates and text.
+export const convertAmountColumns = (
+  headers: string[],
+  data: string[][],
+  from: NumberFormat,
+  to: NumberFormat,
+  dateFormats: Record<string, DateFormat> = {}
+): string[][] => {
+  if (from === to) return data;
+
+  const amountIndexes = profileColumns(headers, data, from, dateFormats)
+    .map((profile, index) => (profile.type === 'decimal' || profile.type === 'currency' ? index : -1))
+    .filter(index => index !== -1);
+  if (amountIndexes.length === 0) return data;
+
+  return data.map(row => {
+    const converted = [...row];
+    amountIndexes.forEach(index => {
+      if (converted[index] !== undefined) converted[index] = convertNumber(converted[index], from, to);
+    });
+    return converted;
+  });
+};
+
+// The profile of a column, when the data has been profiled
+export const getColumnProfile = (profiles: ColumnProfile[] | undefined, column: string): ColumnProfile | undefined => {
+  return profiles?.find(profile => profile.name === column);
+};
+
+// The inferred type of a column, when the data has been profiled
+export const getColumnType = (profiles: ColumnProfile[] | undefined, column: string): ColumnType | undefined => {
+  return getColumnProfile(profiles, column)?.type;
+};
+
+// Whether a profiled column holds dates with a known format
+export const isDateColumn = (profile: ColumnProfile | undefined): profile is ColumnProfile & { dateFormat: DateFormat } => {
+  return !!profile && DATE_TYPES.includes(profile.type) && !!profile.dateFormat;
+};
+
+// The first date column, used to date each transaction in the results
+export const findDateColumn = (profiles: ColumnProfile[] | undefined): (ColumnProfile & { dateFormat: DateFormat }) | undefined => {
+  return profiles?.find(isDateColumn) as (ColumnProfile & { dateFormat: DateFormat }) | undefined;
+};
+
+// Read a value by its column type: amounts become numbers and dates ISO 8601 text, while codes
+// and text stay as written so "00123" doesn't equal "123". Untyped columns are read as a number
+// when they look like one.
+export const parseTypedValue = (
+  value: string,
+  profile?: ColumnProfile,
+  numberFormat: NumberFormat = DEFAULT_NUMBER_FORMAT
+): string | number => {
+  if (!profile || NUMERIC_TYPES.includes(profile.type)) {
+    return parseNumber(value ?? '', numberFormat) ?? value;
+  }
+  if (isDateColumn(profile)) {
+    return toISODate(value ?? '', profile.dateFormat) ?? value;
+  }
+  return value;
+};
@@ -0,0 +1,125 @@
+/**
+ * Row classifier that labels every line of a file as metadata, header, data, subtotal or footer,
+ * scoring rows the same way header detection does
+ */
+
+import { isBlankRow } from './csvTokenizer';
+import { type RowClass } from '@/types/diagnostics';
+
+// Classes that don't hold transactions and are left out of the data unless included
+export const NON_DATA_CLASSES: RowClass[] = ['metadata', 'header', 'subtotal', 'footer'];
+
+export const ROW_CLASS_LABELS: Record<RowClass, string> = {
+  metadata: 'Metadata',
+  header: 'Header',
+  data: 'Data',
+  subtotal: 'Subtotal',
+  footer: 'Footer'
+};
+
+const SUBTOTAL_PATTERN = /^(sub-?\s?totals?|group totals?|section totals?)\b/i;
+const TOTAL_PATTERN = /^(grand\s+)?totals?\b|^sum\b/i;
+const FOOTER_PATTERN = /^(end of (report|file|statement|data|listing)|page \d+|printed\b|generated\b|report (generated|run|printed)|(record|row|transaction) count|number of (records|rows|transactions)|\*{3,}|-{3,}|={3,})/i;
+
+// Numbers as report writers print them, e.g. "1,234.56", "(250.00)" or "-12"
+export const isNumericCell = (cell: string): boolean => {
+  return /^[-+(]?\s?[$€£]?\s?\d[\d,.\s]*\)?-?$/.test(cell.trim());
+};
+
+export const countFilled = (row: string[]): number => row.filter(cell => cell.trim() !== '').length;
+
+// A header repeated further down the file, e.g. at the top of every printed page
+const isRepeatedHeader = (row: string[], header: string[]): boolean => {
+  const filled = countFilled(header);
+  if (filled === 0) return false;
+  const sameCells = header.filter((cell, index) => cell !== '' && row[index]?.trim().toLowerCase() === cell.trim().toLowerCase());
+  return sameCells.length / filled >= 0.8;
+};
+
+// Label every row. Rows before the header are metadata; after it, each row is scored as data,
+// metadata (section titles), subtotal or footer from keywords, how full it is compared with a
+// typical data row, and whether it comes after the last complete data row.
+export const classifyRows = (rows: string[][], headerRowIndex: number, headerRowCount: number = 1): RowClass[] => {
+  const header = rows[headerRowIndex] ?? [];
+  const dataStartIndex = headerRowIndex + headerRowCount;
+  const columnCount = Math.max(1, header.length);
+  const fillOf = (row: string[]) => countFilled(row) / columnCount;
+
+  const hasKeyword = (row: string[], pattern: RegExp) => row.some(cell => pattern.test(cell.trim()));
+
+  // The median fill of the rows after the header is what a data row looks like
+  const bodyFills = rows.slice(dataStartIndex)
+    .filter(row => !isBlankRow(row))
+    .map(fillOf)
+    .sort((a, b) => a - b);
+  const typicalFill = bodyFills.length > 0 ? bodyFills[Math.floor(bodyFills.length / 2)] : 1;
+
+  const isCompleteRow = (row: string[]) => !isBlankRow(row) && fillOf(row) >= typicalFill * 0.8 &&
+    !hasKeyword(row, SUBTOTAL_PATTERN) && !hasKeyword(row, TOTAL_PATTERN) && !hasKeyword(row, FOOTER_PATTERN);
+
+  let lastDataIndex = dataStartIndex - 1;
+  rows.forEach((row, index) => {
+    if (index >= dataStartIndex && isCompleteRow(row)) lastDataIndex = index;
+  });
+
+  const classes = rows.map((row, index): RowClass => {
+    if (index < headerRowIndex) return 'metadata';
+    if (index < dataStartIndex) return 'header';
+    // Blank rows are reported by the import diagnostics instead
+    if (isBlankRow(row)) return 'data';
+    if (isRepeatedHeader(row, header)) return 'header';
+
+    const filled = countFilled(row);
+    const fill = fillOf(row);
+    const isSparse = fill < typicalFill * 0.6;
+    const numericCount = row.filter(isNumericCell).length;
+    const isTrailing = index > lastDataIndex;
+    const hasTotalKeyword = hasKeyword(row, SUBTOTAL_PATTERN) || hasKeyword(row, TOTAL_PATTERN);
+
+    const scores: Record<RowClass, number> = { metadata: 0, header: 0, data: 0, subtotal: 0, footer: 0 };
+
+    // 1. Rows as full as a typical data row are most likely data
+    if (fill >= typicalFill * 0.8) scores.data += 5;
+
+    // 2. Keywords, where a lone "Total" only counts fully on a sparse row so a payee such as
+    // "Total Energy Ltd" stays data
+    if (hasKeyword(row, SUBTOTAL_PATTERN)) scores.subtotal += 10;
+    if (hasKeyword(row, TOTAL_PATTERN)) {
+      scores.subtotal += isSparse ? 6 : 2;
+      if (isTrailing) scores.footer += 8;
+    }
+    if (hasKeyword(row, FOOTER_PATTERN)) scores.footer += 10;
+
+    // 3. Sparse rows with amounts are totals only when a keyword says so, as transactions
+    // often leave optional columns empty; sparse rows without amounts are titles or notes
+    if (isSparse) {
+      if (numericCount > 0) {
+        if (hasTotalKeyword) scores.subtotal += 3;
+      } else {
+        scores.metadata += 3;
+        if (filled === 1) scores.metadata += 3;
+      }
+      if (isTrailing) scores.footer += 4;
+    }
+
+    // 4. Anything after the last complete data row leans towards the footer
+    if (isTrailing && numericCount === 0) scores.footer += 4;
+
+    // Pick the best scoring class, falling back to data when nothing stands out
+    let bestClass: RowClass = 'data';
+    let bestScore = 4;
+    (Object.keys(scores) as RowClass[]).forEach(rowClass => {
+      if (scores[rowClass] > bestScore) {
+        bestClass = rowClass;
+        bestScore = scores[rowClass];
+      }
+    });
+    return bestClass;
+  });
+
+  const suspectCount = classes.filter((rowClass, index) => index >= dataStartIndex && rowClass !== 'data').length;
+  if (suspectCount > 0) {
+    console.log(`Classified ${suspectCount} rows after the header as non-data rows`);
+  }
+  return classes;
+};
@@ -0,0 +1,124 @@
+/**
+ * Utility functions for files that hold several tables, each with its own header,
+ * such as a statement with a cash table followed by a securities table
+ */
+
+import { isBlankRow } from './csvTokenizer';
+import { detectHeaderRow } from './csvUtils';
+import { countFilled, isNumericCell } from './rowClassifier';
+import { type TableBlock, type TableBlocks } from '@/types/upload';
+
+// Column added when blocks are appended, recording which block each row came from
+export const BLOCK_COLUMN = 'Source Block';
+
+// A header row has no amounts, while the row after it does
+const looksLikeHeader = (row: string[], nextRow: string[] | undefined): boolean => {
+  return !row.some(isNumericCell) && (!nextRow || nextRow.some(isNumericCell));
+};
+
+// Find every table in a file. Tables are separated by blank lines and may be preceded by a
+// one-cell title such as "Cash Activity". A part after a blank line that has the same number
+// of columns as the table before it and doesn't start with a header continues that table.
+export const detectTableBlocks = (rows: string[][]): TableBlock[] => {
+  // Split the file into runs of non-blank rows
+  const segments: Array<{ start: number; end: number }> = [];
+  rows.forEach((row, index) => {
+    if (isBlankRow(row)) return;
+    const last = segments[segments.length - 1];
+    if (last && last.end === index) {
+      last.end = index + 1;
+    } else {
+      segments.push({ start: index, end: index + 1 });
+    }
+  });
+
+  const blocks: TableBlock[] = [];
+  let pendingTitle = '';
+
+  segments.forEach(segment => {
+    // Leading one-cell rows are the title of the table that follows
+    let start = segment.start;
+    let title = '';
+    while (start < segment.end && countFilled(rows[start]) <= 1) {
+      title = rows[start].find(cell => cell.trim() !== '')?.trim() ?? title;
+      start++;
+    }
+    if (start >= segment.end) {
+      pendingTitle = title || pendingTitle;
+      return;
+    }
+    title = title || pendingTitle;
+    pendingTitle = '';
+
+    const previous = blocks[blocks.length - 1];
+    if (previous && !title && rows[start].length === previous.headers.length &&
+        !looksLikeHeader(rows[start], rows[start + 1])) {
+      previous.endRowIndex = segment.end;
+      previous.rowCount += rows.slice(start, segment.end).filter(row => !isBlankRow(row)).length;
+      return;
+    }
+
+    // A header without rows after it is a note such as "Account,ABC123", not a table
+    const headerRowIndex = start + detectHeaderRow(rows.slice(start, segment.end));
+    if (headerRowIndex >= segment.end - 1) return;
+
+    blocks.push({
+      title: title || `Table ${blocks.length + 1}`,
+      headerRowIndex,
+      endRowIndex: segment.end,
+      headers: rows[headerRowIndex],
+      rowCount: segment.end - headerRowIndex - 1
+    });
+  });
+
+  if (blocks.length > 1) {
+    console.log(`Detected ${blocks.length} tables:`, blocks.map(block => block.title).join(', '));
+  }
+  return blocks;
+};
+
+// Blocks can be appended when they have the same columns
+export const areBlocksCompatible = (a: TableBlock, b: TableBlock): boolean => {
+  const normalize = (headers: string[]) => headers.map(header => header.trim().toLowerCase()).join('\u0000');
+  return normalize(a.headers) === normalize(b.headers);
+};
+
+// Build the raw rows of the selected blocks, starting with their header. A single block is
+// used as-is; several blocks are appended with a first column naming the block of each row.
+export const buildBlockRows = (tables: TableBlocks, selected: number[]): {
+  rawRows: string[][];
+  lineNumbers: number[];
+  truncated: boolean;
+} => {
+  const blocks = [...selected].sort((a, b) => a - b).map(index => tables.blocks[index]);
+  const lineOf = (rowIndex: number) => tables.lineNumbers?.[rowIndex] ?? rowIndex + 1;
+  // Only the block that runs to the end of the file can be cut off
+  const truncated = !!tables.truncated && blocks[blocks.length - 1]?.endRowIndex === tables.rows.length;
+
+  if (blocks.length === 1) {
+    const [block] = blocks;
+    const rowIndexes = Array.from(
+      { length: block.endRowIndex - block.headerRowIndex },
+      (_, offset) => block.headerRowIndex + offset
+    );
+    return {
+      rawRows: rowIndexes.map(rowIndex => tables.rows[rowIndex]),
+      lineNumbers: rowIndexes.map(lineOf),
+      truncated
+    };
+  }
+
+  const rawRows: string[][] = [[BLOCK_COLUMN, ...blocks[0].headers]];
+  const lineNumbers: number[] = [lineOf(blocks[0].headerRowIndex)];
+
+  blocks.forEach(block => {
+    for (let rowIndex = block.headerRowIndex + 1; rowIndex < block.endRowIndex; rowIndex++) {
+      const row = tables.rows[rowIndex];
+      // Blank rows stay blank so they are still reported as such
+      rawRows.push(isBlankRow(row) ? row : [block.title, ...row]);
+      lineNumbers.push(lineOf(rowIndex));
+    }
+  });
+
+  return { rawRows, lineNumbers, truncated };
+};
@@ -0,0 +1,30 @@
+/**
+ * Web Worker that pairs rows by amount and date, so large files with many repeated amounts
+ * never block the main thread
+ */
+
+import { findAmountDatePairs, type AmountDateItem, type AmountDatePair } from '@/utils/amountDateUtils';
+import { type AmountDateCriteria } from '@/types/reconciliation';
+
+export interface AmountDateWorkerRequest {
+  sourceItems: AmountDateItem[];
+  targetItems: AmountDateItem[];
+  criteria: AmountDateCriteria;
+}
+
+export type AmountDateWorkerMessage =
+  | { type: 'done'; pairs: AmountDatePair[] }
+  | { type: 'error'; message: string };
+
+const post = (message: AmountDateWorkerMessage) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (e: MessageEvent<AmountDateWorkerRequest>) => {
+  try {
+    const { sourceItems, targetItems, criteria } = e.data;
+    post({ type: 'done', pairs: findAmountDatePairs(sourceItems, targetItems, criteria) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,120 @@
+/**
+ * Web Worker that reads a CSV file in chunks and streams the tokenized rows back,
+ * so large files never block the main thread or sit in memory as one string
+ */
+
+import { createCSVTokenizer, detectDelimiter, isBlankRow, parseCSVRows } from '@/utils/csvTokenizer';
+import { createStreamDecoder, detectEncoding } from '@/utils/encodingUtils';
+
+const CHUNK_SIZE = 1024 * 1024;
+
+export interface ParseWorkerRequest {
+  file: File;
+  delimiter?: string;
+  encoding?: string;
+  // Send the untouched lines instead of rows when the delimiter doesn't split the file,
+  // so it can be read as a fixed-width file
+  detectFixedWidth?: boolean;
+}
+
+export type ParseWorkerMessage =
+  | { type: 'rows'; rows: string[][]; lineNumbers: number[] }
+  | { type: 'lines'; lines: string[] }
+  | { type: 'progress'; bytesProcessed: number; totalBytes: number; rowsProcessed: number }
+  | { type: 'done'; delimiter: string; encoding: string; truncated: boolean; fixedWidth: boolean }
+  | { type: 'error'; message: string };
+
+const post = (message: ParseWorkerMessage) => {
+  self.postMessage(message);
+};
+
+// A sample where no row has more than one cell isn't delimited by the delimiter
+const isUnsplit = (text: string, delimiter: string): boolean => {
+  const rows = parseCSVRows(text.slice(0, 64 * 1024), delimiter).filter(row => !isBlankRow(row));
+  return rows.length > 0 && rows.every(row => row.length <= 1);
+};
+
+// Split streamed text into lines, holding back the unfinished last line (and a trailing
+// carriage return, whose line feed may start the next chunk) until more text arrives
+const createLineSplitter = () => {
+  let pending = '';
+
+  return {
+    push(text: string): string[] {
+      const lines = (pending + text).split(/\r\n|\r(?!$)|\n/);
+      pending = lines.pop() ?? '';
+      return lines;
+    },
+    // The line break at the end of the file doesn't start another line
+    flush(): string[] {
+      const lines = pending === '' ? [] : [pending.replace(/\r$/, '')];
+      pending = '';
+      return lines;
+    }
+  };
+};
+
+const parseFile = async ({ file, delimiter, encoding, detectFixedWidth }: ParseWorkerRequest) => {
+  const totalBytes = file.size;
+  let offset = 0;
+  let rowsProcessed = 0;
+
+  // The first chunk is used to sniff the encoding and the delimiter
+  const firstChunk = new Uint8Array(await file.slice(0, CHUNK_SIZE).arrayBuffer());
+  const fileEncoding = encoding ?? detectEncoding(firstChunk);
+  const decoder = createStreamDecoder(fileEncoding);
+
+  let text = decoder.decode(firstChunk, firstChunk.length >= totalBytes);
+  const fileDelimiter = delimiter ?? detectDelimiter(text);
+  const tokenizer = createCSVTokenizer(fileDelimiter);
+  const fixedWidth = Boolean(detectFixedWidth) && isUnsplit(text, fileDelimiter);
+  const lineSplitter = createLineSplitter();
+
+  offset = firstChunk.length;
+
+  for (;;) {
+    if (fixedWidth) {
+      const lines = lineSplitter.push(text);
+      if (offset >= totalBytes) {
+        lines.push(...lineSplitter.flush());
+      }
+
+      if (lines.length > 0) {
+        rowsProcessed += lines.length;
+        post({ type: 'lines', lines });
+      }
+    } else {
+      const rows = tokenizer.push(text);
+      if (offset >= totalBytes) {
+        rows.push(...tokenizer.flush());
+      }
+
+      if (rows.length > 0) {
+        rowsProcessed += rows.length;
+        post({ type: 'rows', rows, lineNumbers: tokenizer.takeLineNumbers() });
+      }
+    }
+    post({ type: 'progress', bytesProcessed: offset, totalBytes, rowsProcessed });
+
+    if (offset >= totalBytes) break;
+
+    const chunk = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+    offset += chunk.length;
+    text = decoder.decode(chunk, offset >= totalBytes);
+  }
+
+  console.log(`Worker parsed ${rowsProcessed} rows from ${file.name}`);
+  post({
+    type: 'done',
+    delimiter: fileDelimiter,
+    encoding: fileEncoding,
+    truncated: !fixedWidth && tokenizer.isTruncated(),
+    fixedWidth
+  });
+};
+
+self.onmessage = (e: MessageEvent<ParseWorkerRequest>) => {
+  parseFile(e.data).catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+};
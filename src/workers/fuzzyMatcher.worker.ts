@@ -0,0 +1,30 @@
+/**
+ * Web Worker that pairs keys that almost match, so comparing every source key with every
+ * target key and solving the assignment never block the main thread
+ */
+
+import { findFuzzyPairs, type FuzzyPair } from '@/utils/fuzzyUtils';
+import { type FuzzyMatchOptions } from '@/types/reconciliation';
+
+export interface FuzzyWorkerRequest {
+  sourceKeys: string[];
+  targetKeys: string[];
+  options: FuzzyMatchOptions;
+}
+
+export type FuzzyWorkerMessage =
+  | { type: 'done'; pairs: FuzzyPair[] }
+  | { type: 'error'; message: string };
+
+const post = (message: FuzzyWorkerMessage) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (e: MessageEvent<FuzzyWorkerRequest>) => {
+  try {
+    const { sourceKeys, targetKeys, options } = e.data;
+    post({ type: 'done', pairs: findFuzzyPairs(sourceKeys, targetKeys, options) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};